@@ -6,18 +6,29 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
 import Home from "@/pages/home";
 import Landing from "@/pages/landing";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
+import Shared from "@/pages/shared";
+import Settings from "@/pages/settings";
+import Activity from "@/pages/activity";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
 
   return (
     <Switch>
+      {/* Share links open for everyone, signed in or not */}
+      <Route path="/s/:token" component={Shared} />
       {isLoading || !isAuthenticated ? (
-        <Route path="/" component={Landing} />
+        <>
+          <Route path="/" component={Landing} />
+          <Route path="/login" component={Login} />
+        </>
       ) : (
         <>
           <Route path="/" component={Home} />
+          <Route path="/settings" component={Settings} />
+          <Route path="/activity" component={Activity} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,117 @@
+import { LogOut, MonitorSmartphone } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import type { UserSession } from "@/lib/types";
+
+// Where the user is signed in, with a way to sign out a lost device or
+// every device at once
+export function ActiveSessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async (session: UserSession) => {
+      await apiRequest("DELETE", `/api/sessions/${encodeURIComponent(session.sid)}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        window.location.href = "/";
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session signed out", description: `${session.device} has been signed out.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to sign out session",
+        description: errorDescription(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/sessions");
+    },
+    // This browser was signed out too
+    onSuccess: () => {
+      window.location.href = "/";
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to sign out everywhere",
+        description: errorDescription(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="w-5 h-5" />
+          Active sessions
+        </CardTitle>
+        <CardDescription>
+          Browsers and devices signed in to your account. Sign out any you do not recognize.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-12 bg-muted rounded-lg animate-pulse" />
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div key={session.sid} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {session.device}
+                    {session.current && <Badge variant="secondary">This browser</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate" title={session.userAgent ?? undefined}>
+                    {session.ipAddress && `${session.ipAddress} • `}
+                    last seen {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                    {" • "}
+                    signed in {formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  onClick={() => signOutMutation.mutate(session)}
+                  disabled={signOutMutation.isPending}
+                >
+                  Sign out
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t border-border pt-4">
+          <Button
+            variant="outline"
+            onClick={() => signOutEverywhereMutation.mutate()}
+            disabled={signOutEverywhereMutation.isPending}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            {signOutEverywhereMutation.isPending ? "Signing out..." : "Sign out everywhere"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import type { ApiToken, ApiTokenScope, CreatedApiToken } from "@/lib/types";
+
+const scopeOptions: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: "read", label: "Read", description: "List and view items" },
+  { value: "write", label: "Write", description: "Create, edit and delete items" },
+  { value: "files", label: "Files", description: "Upload and download file contents" },
+];
+
+// Create and revoke personal access tokens. A new token's secret is shown
+// once, right after it is created.
+export function ApiTokens() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const { toast } = useToast();
+  const { copyToClipboard } = useCopyToClipboard();
+  const queryClient = useQueryClient();
+
+  const { data: tokens = [] } = useQuery<ApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tokens", { name, scopes });
+      return response.json() as Promise<CreatedApiToken>;
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setCreated(token);
+      setName("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create token",
+        description: errorDescription(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/tokens/${id}`);
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      if (created?.id === id) setCreated(null);
+      toast({ title: "Token revoked" });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API tokens
+        </CardTitle>
+        <CardDescription>
+          Use a token from scripts with the header <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Backup script"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {scopeOptions.map((option) => (
+              <label key={option.value} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={scopes.includes(option.value)}
+                  onCheckedChange={(checked) => toggleScope(option.value, checked === true)}
+                />
+                <span>
+                  <span className="font-medium">{option.label}</span>
+                  <span className="text-muted-foreground"> — {option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <Button
+            type="submit"
+            disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+          >
+            {createMutation.isPending ? "Creating..." : "Create token"}
+          </Button>
+        </form>
+
+        {created && (
+          <div className="rounded-lg border border-border bg-muted p-4 space-y-2">
+            <p className="text-sm font-medium">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 truncate text-xs">{created.token}</code>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="p-1 h-auto"
+                onClick={() => copyToClipboard(created.token)}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {tokens.length > 0 && (
+          <div className="space-y-3 border-t border-border pt-4">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{token.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    <code>{token.prefix}…</code>
+                    {" • "}
+                    {token.lastUsedAt
+                      ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : "never used"}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  {token.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary">{scope}</Badge>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1 h-auto text-red-600"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
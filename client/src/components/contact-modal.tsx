@@ -6,13 +6,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import type { Item } from "@/lib/types";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import type { ContactItem } from "@/lib/types";
 
 interface ContactModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  editItem?: Item;
+  editItem?: ContactItem;
 }
 
 export function ContactModal({ open, onOpenChange, editItem }: ContactModalProps) {
@@ -25,6 +26,7 @@ export function ContactModal({ open, onOpenChange, editItem }: ContactModalProps
   const [tags, setTags] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspaceId } = useWorkspace();
   const isEdit = !!editItem;
 
   useEffect(() => {
@@ -32,48 +34,48 @@ export function ContactModal({ open, onOpenChange, editItem }: ContactModalProps
       setName(editItem.title);
       setNotes(editItem.content || "");
       setTags(editItem.tags ? editItem.tags.join(", ") : "");
-      if (editItem.metadata) {
-        try {
-          const metadata = JSON.parse(editItem.metadata);
-          setEmail(metadata.email || "");
-          setPhone(metadata.phone || "");
-          setCompany(metadata.company || "");
-          setRole(metadata.role || "");
-        } catch (e) {
-          // Handle invalid JSON metadata
-        }
-      }
+      const metadata = editItem.metadata ?? {};
+      setEmail(metadata.email || "");
+      setPhone(metadata.phone || "");
+      setCompany(metadata.company || "");
+      setRole(metadata.role || "");
     }
   }, [editItem, open]);
 
   const saveContactMutation = useMutation({
     mutationFn: async (data: any) => {
       if (isEdit) {
-        const response = await fetch(`/api/items/${editItem.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify(data),
+        // Updates take item fields, not the contact creation payload
+        const response = await apiRequest("PATCH", `/api/items/${editItem.id}`, {
+          title: data.name,
+          content: data.notes ?? null,
+          tags: data.tags,
+          metadata: {
+            email: data.email,
+            phone: data.phone,
+            company: data.company,
+            role: data.role,
+          },
         });
-        if (!response.ok) throw new Error("Failed to update contact");
         return response.json();
       } else {
-        const response = await apiRequest("POST", "/api/items/contact", data);
+        const response = await apiRequest("POST", "/api/items/contact", { ...data, workspaceId });
         return response.json();
       }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
       toast({
         title: isEdit ? "Contact updated successfully!" : "Contact created successfully!",
         description: isEdit ? "Your contact has been updated." : "Your contact has been saved to your hub.",
       });
       handleClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: isEdit ? "Failed to update contact" : "Failed to create contact",
-        description: "Please try again.",
+        description: errorDescription(error),
         variant: "destructive",
       });
     },
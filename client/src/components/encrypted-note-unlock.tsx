@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { decryptNote, WrongPassphraseError, type PlainNote, type SealedNote } from "@/lib/noteCrypto";
+
+interface EncryptedNoteUnlockProps {
+  sealed: SealedNote;
+  onUnlock: (note: PlainNote, passphrase: string) => void;
+}
+
+// Passphrase prompt for an encrypted note; decrypts in the browser
+export function EncryptedNoteUnlock({ sealed, onUnlock }: EncryptedNoteUnlockProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsDecrypting(true);
+    setError(null);
+    try {
+      onUnlock(await decryptNote(sealed, passphrase), passphrase);
+    } catch (error) {
+      setError(error instanceof WrongPassphraseError ? "Wrong passphrase" : "This note could not be decrypted");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Lock className="w-4 h-4" />
+        This note is end-to-end encrypted. Enter its passphrase to read it.
+      </div>
+      <div>
+        <Label htmlFor="note-passphrase">Passphrase</Label>
+        <Input
+          id="note-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="off"
+          autoFocus
+          required
+        />
+        {error && <p className="text-sm text-destructive mt-1">{error}</p>}
+      </div>
+      <Button type="submit" className="w-full" disabled={!passphrase || isDecrypting}>
+        {isDecrypting ? "Unlocking..." : "Unlock"}
+      </Button>
+    </form>
+  );
+}
@@ -1,9 +1,12 @@
 import { useState } from "react";
-import { Search, LogOut } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { Link } from "wouter";
+import { Search, LogOut, Settings, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
+import { UsageMeter } from "./usage-meter";
+import { WorkspaceSwitcher } from "./workspace-switcher";
+import { SearchInput } from "./search-input";
 import type { User } from "@/lib/types";
 
 interface HeaderProps {
@@ -38,20 +41,12 @@ export function Header({ searchQuery, onSearchChange }: HeaderProps) {
               <div className="w-4 h-4 bg-white rounded-sm"></div>
             </div>
             <h1 className="text-xl font-semibold">InfoSpace</h1>
+            <WorkspaceSwitcher />
           </div>
           
           {/* Desktop Search */}
           <div className="hidden md:flex flex-1 max-w-md mx-8">
-            <div className="relative w-full">
-              <Search className="absolute left-3 top-2.5 h-5 w-5 text-muted-foreground" />
-              <Input
-                type="text"
-                placeholder="Search files, notes, contacts..."
-                value={searchQuery}
-                onChange={(e) => onSearchChange(e.target.value)}
-                className="pl-10 bg-muted border-border"
-              />
-            </div>
+            <SearchInput value={searchQuery} onChange={onSearchChange} className="bg-muted" />
           </div>
 
           <div className="flex items-center space-x-4">
@@ -62,6 +57,8 @@ export function Header({ searchQuery, onSearchChange }: HeaderProps) {
               <Search className="w-5 h-5" />
             </button>
             
+            <UsageMeter />
+
             <div className="flex items-center space-x-3">
               <div className="flex items-center space-x-2">
                 <Avatar className="w-8 h-8">
@@ -79,6 +76,16 @@ export function Header({ searchQuery, onSearchChange }: HeaderProps) {
                   </p>
                 </div>
               </div>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/activity" aria-label="Activity">
+                  <History className="w-4 h-4" />
+                </Link>
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/settings" aria-label="Settings">
+                  <Settings className="w-4 h-4" />
+                </Link>
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -95,16 +102,7 @@ export function Header({ searchQuery, onSearchChange }: HeaderProps) {
         {/* Mobile Search */}
         {isMobileSearchOpen && (
           <div className="md:hidden pb-4 animate-in">
-            <div className="relative">
-              <Search className="absolute left-3 top-3.5 h-5 w-5 text-muted-foreground" />
-              <Input
-                type="text"
-                placeholder="Search files, notes, contacts..."
-                value={searchQuery}
-                onChange={(e) => onSearchChange(e.target.value)}
-                className="pl-10 bg-card border-border"
-              />
-            </div>
+            <SearchInput value={searchQuery} onChange={onSearchChange} className="bg-card" />
           </div>
         )}
       </div>
@@ -1,5 +1,23 @@
-import { useState } from "react";
-import { Copy, Eye, ExternalLink, Phone, Mail, Trash2, MoreVertical, Edit, Download } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  Copy,
+  Eye,
+  ExternalLink,
+  Phone,
+  Mail,
+  Trash2,
+  MoreVertical,
+  Edit,
+  Download,
+  Share2,
+  Lock,
+  Loader2,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+  RefreshCw,
+  FileWarning,
+} from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,22 +25,58 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { apiRequest } from "@/lib/queryClient";
-import { Item, ContactMetadata, LinkMetadata } from "@/lib/types";
+import { formatFileSize } from "@/lib/utils";
+import { decryptNote, getSealedNote, type PlainNote } from "@/lib/noteCrypto";
+import { Item, ContactMetadata, LinkItem } from "@/lib/types";
 import { formatDistanceToNow } from "date-fns";
 import { NoteModal } from "./note-modal";
 import { ContactModal } from "./contact-modal";
 import { LinkModal } from "./link-modal";
+import { ShareDialog } from "./share-dialog";
+import { EncryptedNoteUnlock } from "./encrypted-note-unlock";
 
 interface ItemCardProps {
   item: Item;
 }
 
+// Older links may predate link metadata; fileUrl always holds the URL too
+const getLinkUrl = (item: LinkItem) => item.metadata?.url || item.fileUrl || "";
+
 export function ItemCard({ item }: ItemCardProps) {
   const { copyToClipboard } = useCopyToClipboard();
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const queryClient = useQueryClient();
+  // Workspace viewers only get the read-only actions
+  const { canEdit } = useWorkspace();
+
+  // Encrypted notes stay locked until their passphrase is entered; the
+  // plaintext only lives in this component's state
+  const sealed = getSealedNote(item);
+  const [unlocked, setUnlocked] = useState<{ iv: string; note: PlainNote; passphrase: string } | null>(null);
+  const isLocked = !!sealed && unlocked?.iv !== sealed.encryption.iv;
+  const title = sealed ? (isLocked ? item.title : unlocked!.note.title) : item.title;
+  const content = sealed ? (isLocked ? null : unlocked!.note.content) : item.content;
+
+  // Files can only be opened once the scanners have passed them
+  const isScanBlocked = item.type === "file"
+    && (item.scanStatus === "pending" || item.scanStatus === "quarantined" || item.scanStatus === "failed");
+
+  // After an edit the note has new ciphertext; open it with the same passphrase
+  useEffect(() => {
+    if (!sealed || !unlocked || !isLocked) return;
+    let cancelled = false;
+    decryptNote(sealed, unlocked.passphrase).then(
+      (note) => !cancelled && setUnlocked({ ...unlocked, iv: sealed.encryption.iv, note }),
+      () => !cancelled && setUnlocked(null),
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [sealed?.encryption.iv]);
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -35,6 +89,25 @@ export function ItemCard({ item }: ItemCardProps) {
       }
       return response.json();
     },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+    },
+  });
+
+  const rescanMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/items/${item.id}/rescan`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+    },
+  });
+
+  const reindexMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/items/${item.id}/reindex`);
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
     },
@@ -52,14 +125,6 @@ export function ItemCard({ item }: ItemCardProps) {
     return "📄";
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return "0 Bytes";
-    const k = 1024;
-    const sizes = ["Bytes", "KB", "MB", "GB"];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-  };
-
   const handleCopy = () => {
     let copyText = "";
 
@@ -68,10 +133,10 @@ export function ItemCard({ item }: ItemCardProps) {
         copyText = item.fileUrl ? `${window.location.origin}${item.fileUrl}` : "";
         break;
       case "note":
-        copyText = item.content || "";
+        copyText = content || "";
         break;
       case "contact":
-        const contactData = item.metadata ? JSON.parse(item.metadata) as ContactMetadata : {};
+        const contactData: ContactMetadata = item.metadata ?? {};
         const contactInfo = [
           contactData.email || "",
           contactData.phone || "",
@@ -81,11 +146,8 @@ export function ItemCard({ item }: ItemCardProps) {
         copyText = contactInfo;
         break;
       case "link":
-        const linkData = item.metadata ? JSON.parse(item.metadata) as LinkMetadata : { url: item.fileUrl || "" };
-        copyText = linkData.url;
+        copyText = getLinkUrl(item);
         break;
-      default:
-        copyText = item.content || "";
     }
 
     copyToClipboard(copyText);
@@ -93,20 +155,87 @@ export function ItemCard({ item }: ItemCardProps) {
 
   const handleAction = () => {
     if (item.type === "link") {
-      const linkData = item.metadata ? JSON.parse(item.metadata) as LinkMetadata : { url: item.fileUrl || "" };
-      window.open(linkData.url, "_blank");
+      window.open(getLinkUrl(item), "_blank");
     } else if (item.type === "file" && item.fileUrl) {
       // For files, open in same tab to allow browser to handle preview/download
       window.location.href = `${item.fileUrl}?action=preview`;
     }
   };
 
+  const renderScanStatus = () => {
+    switch (item.scanStatus) {
+      case "pending":
+        return (
+          <Badge variant="secondary" className="mb-3 gap-1 text-xs">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Scanning
+          </Badge>
+        );
+      case "quarantined":
+        return (
+          <div className="mb-3 space-y-1">
+            <Badge variant="destructive" className="gap-1 text-xs">
+              <ShieldAlert className="w-3 h-3" />
+              Quarantined
+            </Badge>
+            {item.scanResult && (
+              <p className="text-xs text-muted-foreground">{item.scanResult}</p>
+            )}
+          </div>
+        );
+      case "failed":
+        return (
+          <div className="mb-3 space-y-1">
+            <Badge variant="outline" className="gap-1 text-xs">
+              <ShieldQuestion className="w-3 h-3" />
+              Not scanned
+            </Badge>
+            {item.scanResult && (
+              <p className="text-xs text-muted-foreground">{item.scanResult}</p>
+            )}
+          </div>
+        );
+      case "clean":
+        return (
+          <Badge variant="outline" className="mb-3 gap-1 text-xs">
+            <ShieldCheck className="w-3 h-3" />
+            Scanned
+          </Badge>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Shown once the scan is done; only what search cannot see yet is worth a badge
+  const renderExtractionStatus = () => {
+    if (item.scanStatus === "pending" || item.scanStatus === "failed") return null;
+    switch (item.extractionStatus) {
+      case "pending":
+        return (
+          <Badge variant="secondary" className="mb-3 ml-1 gap-1 text-xs">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Indexing text
+          </Badge>
+        );
+      case "failed":
+        return (
+          <Badge variant="outline" className="mb-3 ml-1 gap-1 text-xs" title="Search only finds this file by its name">
+            <FileWarning className="w-3 h-3" />
+            Text not readable
+          </Badge>
+        );
+      default:
+        return null;
+    }
+  };
+
   const renderContent = () => {
     switch (item.type) {
       case "file":
         return (
           <>
-            {item.mimeType?.startsWith("image/") && (
+            {item.mimeType?.startsWith("image/") && !isScanBlocked && (
               <img 
                 src={item.fileUrl || ""} 
                 alt={item.title}
@@ -124,6 +253,8 @@ export function ItemCard({ item }: ItemCardProps) {
                 </p>
               </div>
             </div>
+            {renderScanStatus()}
+            {renderExtractionStatus()}
           </>
         );
 
@@ -135,20 +266,27 @@ export function ItemCard({ item }: ItemCardProps) {
                 <span className="text-lg">📝</span>
               </div>
               <div className="flex-1">
-                <h3 className="font-medium text-sm">{item.title}</h3>
+                <h3 className="font-medium text-sm flex items-center gap-1">
+                  {sealed && <Lock className="w-3 h-3 shrink-0" />}
+                  {title}
+                </h3>
                 <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}</p>
               </div>
             </div>
-            {item.content && (
+            {isLocked ? (
+              <p className="text-xs text-muted-foreground italic mb-2">
+                Locked. View the note to enter its passphrase.
+              </p>
+            ) : content && (
               <p className="text-xs text-muted-foreground line-clamp-2 mb-2">
-                {item.content}
+                {content}
               </p>
             )}
           </div>
         );
 
       case "contact":
-        const contactData = item.metadata ? JSON.parse(item.metadata) as ContactMetadata : {};
+        const contactData: ContactMetadata = item.metadata ?? {};
         return (
           <div className="mb-3">
             <div className="flex items-center space-x-3 mb-3">
@@ -180,7 +318,7 @@ export function ItemCard({ item }: ItemCardProps) {
         );
 
       case "link":
-        const linkData = item.metadata ? JSON.parse(item.metadata) as LinkMetadata : { url: item.fileUrl || "" };
+        const linkUrl = getLinkUrl(item);
         return (
           <div className="mb-3">
             <div className="flex items-center space-x-3 mb-3">
@@ -189,7 +327,7 @@ export function ItemCard({ item }: ItemCardProps) {
               </div>
               <div className="flex-1 min-w-0">
                 <h3 className="font-medium text-sm">{item.title}</h3>
-                <p className="text-xs text-muted-foreground truncate">{linkData.url}</p>
+                <p className="text-xs text-muted-foreground truncate">{linkUrl}</p>
               </div>
             </div>
             {item.content && (
@@ -206,7 +344,12 @@ export function ItemCard({ item }: ItemCardProps) {
   };
 
   const handleEdit = () => {
-    setIsEditModalOpen(true);
+    // A locked note is unlocked in the view dialog before it can be edited
+    if (isLocked) {
+      setIsViewModalOpen(true);
+    } else {
+      setIsEditModalOpen(true);
+    }
   };
 
   const handleDelete = () => {
@@ -228,6 +371,7 @@ export function ItemCard({ item }: ItemCardProps) {
               size="sm"
               className="p-1 h-auto"
               onClick={handleCopy}
+              disabled={isLocked || isScanBlocked}
             >
               <Copy className="w-4 h-4" />
             </Button>
@@ -242,11 +386,13 @@ export function ItemCard({ item }: ItemCardProps) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent>
-                <DropdownMenuItem onClick={handleEdit}>
-                  <Edit className="mr-2 h-4 w-4" />
-                  Edit
-                </DropdownMenuItem>
-                {item.type === 'file' && item.fileUrl && (
+                {canEdit && (
+                  <DropdownMenuItem onClick={handleEdit}>
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                {item.type === 'file' && item.fileUrl && !isScanBlocked && (
                   <DropdownMenuItem onClick={() => {
                     const link = document.createElement('a');
                     link.href = `${item.fileUrl}?action=download`;
@@ -259,10 +405,30 @@ export function ItemCard({ item }: ItemCardProps) {
                     Download
                   </DropdownMenuItem>
                 )}
-                <DropdownMenuItem onClick={handleDelete} className="text-red-600">
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  {deleteMutation.isPending ? "Deleting..." : "Delete"}
-                </DropdownMenuItem>
+                {canEdit && item.scanStatus === 'failed' && (
+                  <DropdownMenuItem onClick={() => rescanMutation.mutate()} disabled={rescanMutation.isPending}>
+                    <ShieldQuestion className="mr-2 h-4 w-4" />
+                    Rescan
+                  </DropdownMenuItem>
+                )}
+                {canEdit && item.type === 'file' && item.objectKey && (
+                  <DropdownMenuItem onClick={() => reindexMutation.mutate()} disabled={reindexMutation.isPending}>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Re-index text
+                  </DropdownMenuItem>
+                )}
+                {canEdit && (
+                  <>
+                    <DropdownMenuItem onClick={() => setIsShareDialogOpen(true)}>
+                      <Share2 className="mr-2 h-4 w-4" />
+                      Share
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleDelete} className="text-red-600">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -287,6 +453,7 @@ export function ItemCard({ item }: ItemCardProps) {
             <Button
               className="flex-1 text-sm"
               onClick={handleAction}
+              disabled={isScanBlocked}
             >
               {item.type === "link" ? (
                 <>
@@ -325,16 +492,23 @@ export function ItemCard({ item }: ItemCardProps) {
       <Dialog open={isViewModalOpen} onOpenChange={setIsViewModalOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{item.title}</DialogTitle>
+            <DialogTitle>{title}</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-4">
-            {item.type === "note" && (
+            {item.type === "note" && sealed && isLocked && (
+              <EncryptedNoteUnlock
+                sealed={sealed}
+                onUnlock={(note, passphrase) => setUnlocked({ iv: sealed.encryption.iv, note, passphrase })}
+              />
+            )}
+
+            {item.type === "note" && !isLocked && (
               <div>
                 <h4 className="font-medium mb-2">Content</h4>
                 <div className="bg-muted p-4 rounded-lg">
                   <p className="whitespace-pre-wrap text-sm">
-                    {item.content || "No content"}
+                    {content || "No content"}
                   </p>
                 </div>
               </div>
@@ -343,7 +517,7 @@ export function ItemCard({ item }: ItemCardProps) {
             {item.type === "contact" && (
               <div className="space-y-4">
                 {(() => {
-                  const contactData = item.metadata ? JSON.parse(item.metadata) as ContactMetadata : {};
+                  const contactData: ContactMetadata = item.metadata ?? {};
                   return (
                     <>
                       <div className="grid grid-cols-2 gap-4">
@@ -441,6 +615,7 @@ export function ItemCard({ item }: ItemCardProps) {
           open={isEditModalOpen}
           onOpenChange={setIsEditModalOpen}
           editItem={item}
+          unlocked={sealed && unlocked ? unlocked : undefined}
         />
       )}
 
@@ -459,6 +634,12 @@ export function ItemCard({ item }: ItemCardProps) {
           editItem={item}
         />
       )}
+
+      <ShareDialog
+        item={item}
+        open={isShareDialogOpen}
+        onOpenChange={setIsShareDialogOpen}
+      />
     </Card>
   );
 }
\ No newline at end of file
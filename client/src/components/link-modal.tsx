@@ -6,13 +6,14 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import type { Item } from "@/lib/types";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import type { LinkItem } from "@/lib/types";
 
 interface LinkModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  editItem?: Item;
+  editItem?: LinkItem;
 }
 
 export function LinkModal({ open, onOpenChange, editItem }: LinkModalProps) {
@@ -22,6 +23,7 @@ export function LinkModal({ open, onOpenChange, editItem }: LinkModalProps) {
   const [tags, setTags] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspaceId } = useWorkspace();
   const isEdit = !!editItem;
 
   useEffect(() => {
@@ -29,45 +31,40 @@ export function LinkModal({ open, onOpenChange, editItem }: LinkModalProps) {
       setTitle(editItem.title);
       setDescription(editItem.content || "");
       setTags(editItem.tags ? editItem.tags.join(", ") : "");
-      if (editItem.metadata) {
-        try {
-          const metadata = JSON.parse(editItem.metadata);
-          setUrl(metadata.url || "");
-        } catch (e) {
-          // Handle invalid JSON metadata
-        }
-      }
+      setUrl(editItem.metadata?.url || editItem.fileUrl || "");
     }
   }, [editItem, open]);
 
   const saveLinkMutation = useMutation({
     mutationFn: async (data: any) => {
       if (isEdit) {
-        const response = await fetch(`/api/items/${editItem.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify(data),
+        // Updates take item fields, not the link creation payload
+        const response = await apiRequest("PATCH", `/api/items/${editItem.id}`, {
+          title: data.title,
+          content: data.description ?? null,
+          fileUrl: data.url,
+          tags: data.tags,
+          metadata: { url: data.url },
         });
-        if (!response.ok) throw new Error("Failed to update link");
         return response.json();
       } else {
-        const response = await apiRequest("POST", "/api/items/link", data);
+        const response = await apiRequest("POST", "/api/items/link", { ...data, workspaceId });
         return response.json();
       }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
       toast({
         title: isEdit ? "Link updated successfully!" : "Link saved successfully!",
         description: isEdit ? "Your link has been updated." : "Your link has been saved to your hub.",
       });
       handleClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: isEdit ? "Failed to update link" : "Failed to save link",
-        description: "Please try again.",
+        description: errorDescription(error),
         variant: "destructive",
       });
     },
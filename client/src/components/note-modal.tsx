@@ -4,61 +4,84 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import type { Item } from "@/lib/types";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { encryptNote, type PlainNote } from "@/lib/noteCrypto";
+import type { NoteItem } from "@/lib/types";
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 interface NoteModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  editItem?: Item;
+  editItem?: NoteItem;
+  // The decrypted note and its passphrase, when editItem is encrypted
+  unlocked?: { note: PlainNote; passphrase: string };
 }
 
-export function NoteModal({ open, onOpenChange, editItem }: NoteModalProps) {
+export function NoteModal({ open, onOpenChange, editItem, unlocked }: NoteModalProps) {
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [tags, setTags] = useState("");
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspaceId } = useWorkspace();
   const isEdit = !!editItem;
+  // Encrypted notes are edited with the passphrase they were unlocked with
+  const isEncrypted = isEdit ? !!unlocked : encrypt;
+  const passphraseError = !isEncrypted || isEdit
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmPassphrase
+        ? "Passphrases do not match"
+        : null;
 
   useEffect(() => {
     if (editItem && open) {
-      setTitle(editItem.title);
-      setContent(editItem.content || "");
+      setTitle(unlocked?.note.title ?? editItem.title);
+      setContent(unlocked?.note.content ?? editItem.content ?? "");
       setTags(editItem.tags ? editItem.tags.join(", ") : "");
     }
-  }, [editItem, open]);
+  }, [editItem, unlocked, open]);
 
   const saveNoteMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async ({ title, content, tags }: PlainNote & { tags: string[] }) => {
+      let data: Record<string, unknown> = { title, content, tags };
+      if (isEncrypted) {
+        const sealed = await encryptNote({ title, content }, unlocked?.passphrase ?? passphrase);
+        data = isEdit
+          ? { content: sealed.ciphertext, metadata: { encryption: sealed.encryption }, tags }
+          : { ...sealed, tags };
+      }
+
       if (isEdit) {
-        const response = await fetch(`/api/items/${editItem.id}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify(data),
-        });
-        if (!response.ok) throw new Error("Failed to update note");
+        const response = await apiRequest("PATCH", `/api/items/${editItem.id}`, data);
         return response.json();
       } else {
-        const response = await apiRequest("POST", "/api/items/note", data);
+        const response = await apiRequest("POST", "/api/items/note", { ...data, workspaceId });
         return response.json();
       }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
       toast({
         title: isEdit ? "Note updated successfully!" : "Note created successfully!",
         description: isEdit ? "Your note has been updated." : "Your note has been saved to your hub.",
       });
       handleClose();
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: isEdit ? "Failed to update note" : "Failed to create note",
-        description: "Please try again.",
+        description: errorDescription(error),
         variant: "destructive",
       });
     },
@@ -66,7 +89,7 @@ export function NoteModal({ open, onOpenChange, editItem }: NoteModalProps) {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!title.trim() || !content.trim()) return;
+    if (!title.trim() || !content.trim() || passphraseError) return;
 
     saveNoteMutation.mutate({
       title: title.trim(),
@@ -80,7 +103,10 @@ export function NoteModal({ open, onOpenChange, editItem }: NoteModalProps) {
       setTitle("");
       setContent("");
       setTags("");
+      setEncrypt(false);
     }
+    setPassphrase("");
+    setConfirmPassphrase("");
     onOpenChange(false);
   };
 
@@ -123,15 +149,65 @@ export function NoteModal({ open, onOpenChange, editItem }: NoteModalProps) {
               onChange={(e) => setTags(e.target.value)}
               placeholder="meeting, important, ideas"
             />
+            {isEncrypted && (
+              <p className="text-xs text-muted-foreground mt-1">Tags are not encrypted.</p>
+            )}
           </div>
 
+          {!isEdit && (
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="encrypt"
+                  checked={encrypt}
+                  onCheckedChange={(checked) => setEncrypt(checked === true)}
+                />
+                <Label htmlFor="encrypt" className="font-normal">
+                  Encrypt with a passphrase
+                </Label>
+              </div>
+
+              {encrypt && (
+                <>
+                  <div>
+                    <Label htmlFor="passphrase">Passphrase</Label>
+                    <Input
+                      id="passphrase"
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      autoComplete="new-password"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="confirm-passphrase">Confirm passphrase</Label>
+                    <Input
+                      id="confirm-passphrase"
+                      type="password"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      autoComplete="new-password"
+                    />
+                    {passphrase && passphraseError && (
+                      <p className="text-xs text-destructive mt-1">{passphraseError}</p>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The title and content are encrypted in your browser. The passphrase cannot be
+                    recovered, and encrypted notes do not show up in search.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="flex space-x-2">
             <Button type="button" variant="outline" onClick={handleClose} className="flex-1">
               Cancel
             </Button>
             <Button 
               type="submit" 
-              disabled={!title.trim() || !content.trim() || saveNoteMutation.isPending}
+              disabled={!title.trim() || !content.trim() || !!passphraseError || saveNoteMutation.isPending}
               className="flex-1 bg-secondary hover:bg-secondary/90"
             >
               {saveNoteMutation.isPending ? (isEdit ? "Updating..." : "Creating...") : (isEdit ? "Update Note" : "Create Note")}
@@ -4,7 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 export function QuickNote() {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -12,14 +13,16 @@ export function QuickNote() {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspaceId } = useWorkspace();
 
   const createNoteMutation = useMutation({
     mutationFn: async (data: any) => {
-      const response = await apiRequest("POST", "/api/items/note", data);
+      const response = await apiRequest("POST", "/api/items/note", { ...data, workspaceId });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
       toast({
         title: "Note created!",
         description: "Your note has been saved.",
@@ -27,10 +30,10 @@ export function QuickNote() {
       setContent("");
       setIsExpanded(false);
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Failed to create note",
-        description: "Please try again.",
+        description: errorDescription(error),
         variant: "destructive",
       });
     },
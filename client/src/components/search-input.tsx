@@ -0,0 +1,175 @@
+import { useId, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { cn } from "@/lib/utils";
+
+// Filters of the search syntax, see server/search.ts
+const SEARCH_FIELDS = [
+  { name: "type", description: "file, note, contact or link" },
+  { name: "tag", description: "items with the tag" },
+  { name: "title", description: "title contains" },
+  { name: "filename", description: "file name contains" },
+  { name: "company", description: "contact's company contains" },
+  { name: "email", description: "contact's email contains" },
+  { name: "role", description: "contact's role contains" },
+  { name: "url", description: "link address contains" },
+  { name: "ext", description: "file extension, like pdf" },
+  { name: "before", description: "created before a date, like 2025-01-31" },
+  { name: "after", description: "created after a date, like 2025-01-31" },
+  { name: "size", description: "file size, like >5mb or <100kb" },
+];
+
+const ITEM_TYPES = ["file", "note", "contact", "link"];
+const MAX_SUGGESTIONS = 8;
+
+interface Suggestion {
+  label: string;
+  description?: string;
+  // Replaces the word being typed
+  insert: string;
+}
+
+// The word before the cursor: from the last space, or the opening quote of a
+// value like company:"Acme C
+function currentWord(value: string, cursor: number) {
+  const before = value.slice(0, cursor);
+  const quoteCount = (before.match(/"/g) ?? []).length;
+  const start = quoteCount % 2 === 1
+    ? before.lastIndexOf(" ", before.lastIndexOf('"')) + 1
+    : before.search(/\S*$/);
+  return { start, word: before.slice(start) };
+}
+
+function quoted(value: string) {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function suggestionsFor(word: string, tags: string[]): Suggestion[] {
+  const negation = word.startsWith("-") ? "-" : "";
+  const term = word.slice(negation.length);
+  const colon = term.indexOf(":");
+
+  if (colon === -1) {
+    if (!/^[a-z]+$/i.test(term)) return [];
+    return SEARCH_FIELDS
+      .filter((field) => field.name.startsWith(term.toLowerCase()))
+      .map((field) => ({ label: `${field.name}:`, description: field.description, insert: `${negation}${field.name}:` }));
+  }
+
+  const field = term.slice(0, colon).toLowerCase();
+  const partial = term.slice(colon + 1).replace(/^"/, "").toLowerCase();
+  const values = field === "tag" ? tags : field === "type" ? ITEM_TYPES : [];
+  return values
+    .filter((value) => value.toLowerCase().includes(partial) && value.toLowerCase() !== partial)
+    .map((value) => ({ label: `${field}:${value}`, insert: `${negation}${field}:${quoted(value)} ` }));
+}
+
+interface SearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+// The header search box, completing filter names, tags and item types as
+// they are typed
+export function SearchInput({ value, onChange, className }: SearchInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listId = useId();
+  const [cursor, setCursor] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { workspaceId } = useWorkspace();
+
+  const { data: tags = [] } = useQuery<string[]>({
+    queryKey: [workspaceId === null ? "/api/tags" : `/api/tags?workspace=${workspaceId}`],
+    enabled: isFocused,
+    // Tags change as items are edited; a minute old is fresh enough here
+    staleTime: 60 * 1000,
+  });
+
+  const { start, word } = currentWord(value, cursor);
+  const suggestions = isFocused && !isDismissed ? suggestionsFor(word, tags).slice(0, MAX_SUGGESTIONS) : [];
+  const isOpen = suggestions.length > 0;
+
+  const update = (next: string, nextCursor: number) => {
+    onChange(next);
+    setCursor(nextCursor);
+    setIsDismissed(false);
+    setActiveIndex(0);
+  };
+
+  const accept = (suggestion: Suggestion) => {
+    const next = value.slice(0, start) + suggestion.insert + value.slice(cursor);
+    const nextCursor = start + suggestion.insert.length;
+    update(next, nextCursor);
+    // Once React has rendered the new value
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      accept(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      setIsDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder="Search, or filter with type:, tag:, size:>5mb..."
+        value={value}
+        onChange={(e) => update(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        className={cn("pl-10 border-border", className)}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        aria-controls={listId}
+      />
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full rounded-md border border-border bg-popover py-1 shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keeps the focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(suggestion)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex items-baseline justify-between gap-4 px-3 py-1.5 text-sm cursor-pointer",
+                index === activeIndex && "bg-muted",
+              )}
+            >
+              <span className="font-mono">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="text-xs text-muted-foreground truncate">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Copy, Lock, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, errorDescription } from "@/lib/queryClient";
+import type { Item, ShareLink } from "@/lib/types";
+
+interface ShareDialogProps {
+  item: Item;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Expiry choices, in days; "never" leaves the link open until revoked
+const expiryOptions = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+function describeLimits(link: ShareLink) {
+  const parts: string[] = [];
+  parts.push(
+    link.expiresAt
+      ? `expires ${formatDistanceToNow(new Date(link.expiresAt), { addSuffix: true })}`
+      : "never expires",
+  );
+  if (link.maxDownloads !== null) {
+    parts.push(`${link.downloadCount} of ${link.maxDownloads} downloads`);
+  } else if (link.downloadCount > 0) {
+    parts.push(`${link.downloadCount} downloads`);
+  }
+  return parts.join(" • ");
+}
+
+export function ShareDialog({ item, open, onOpenChange }: ShareDialogProps) {
+  const [expiry, setExpiry] = useState("7");
+  const [password, setPassword] = useState("");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const { toast } = useToast();
+  const { copyToClipboard } = useCopyToClipboard();
+  const queryClient = useQueryClient();
+  const linksKey = [`/api/items/${item.id}/share-links`];
+
+  const { data: links = [] } = useQuery<ShareLink[]>({
+    queryKey: linksKey,
+    enabled: open,
+  });
+
+  const shareUrl = (link: ShareLink) => `${window.location.origin}${link.url}`;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/items/${item.id}/share-links`, {
+        expiresAt: expiry === "never"
+          ? undefined
+          : new Date(Date.now() + parseInt(expiry) * 24 * 60 * 60 * 1000).toISOString(),
+        password: password || undefined,
+        maxDownloads: maxDownloads ? parseInt(maxDownloads) : undefined,
+      });
+      return response.json() as Promise<ShareLink>;
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      setPassword("");
+      setMaxDownloads("");
+      copyToClipboard(shareUrl(link));
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create share link",
+        description: errorDescription(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/share-links/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      toast({ title: "Share link revoked" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share "{item.title}"</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="share-expiry">Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {item.type === "file" && (
+              <div>
+                <Label htmlFor="share-max-downloads">Max downloads</Label>
+                <Input
+                  id="share-max-downloads"
+                  type="number"
+                  min={1}
+                  value={maxDownloads}
+                  onChange={(e) => setMaxDownloads(e.target.value)}
+                  placeholder="Unlimited"
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="share-password">Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Leave empty for no password"
+              minLength={4}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={createMutation.isPending}>
+            {createMutation.isPending ? "Creating..." : "Create link"}
+          </Button>
+        </form>
+
+        {links.length > 0 && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <h4 className="text-sm font-medium">Active links</h4>
+            {links.map((link) => (
+              <div key={link.id} className="flex items-center space-x-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate flex items-center">
+                    {link.hasPassword && <Lock className="w-3 h-3 mr-1 shrink-0" />}
+                    {shareUrl(link)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeLimits(link)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1 h-auto"
+                  onClick={() => copyToClipboard(shareUrl(link))}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="p-1 h-auto text-red-600"
+                  onClick={() => revokeMutation.mutate(link.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
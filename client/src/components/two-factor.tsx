@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { Copy, ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useCopyToClipboard } from "@/hooks/use-copy-to-clipboard";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, RateLimitError } from "@/lib/queryClient";
+import type { TwoFactorSetup, TwoFactorStatus } from "@/lib/types";
+
+// apiRequest errors read "<status>: <body>"; show the server's message
+function errorMessage(error: Error) {
+  if (error instanceof RateLimitError) return error.message;
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Enrollment with an authenticator app, recovery codes, and turning it off.
+// Recovery codes are shown once, right after they are created.
+export function TwoFactor() {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+  const { copyToClipboard } = useCopyToClipboard();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: errorMessage(error), variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (started) => {
+      setSetup(started);
+      setCode("");
+      setRecoveryCodes(null);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError,
+  });
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      setCode("");
+      setRecoveryCodes(null);
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError,
+  });
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    enableMutation.mutate();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-factor authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app after your password when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <div className="h-12 bg-muted rounded-lg animate-pulse" />}
+
+        {status && status.requiredBy.length > 0 && (
+          <p className="text-sm">
+            Required by {status.requiredBy.join(", ")}.
+            {!status.enabled && " Turn it on to open these workspaces."}
+          </p>
+        )}
+
+        {status && !status.available && (
+          <p className="text-sm text-muted-foreground">
+            Your account signs in through an identity provider. Set up two-factor authentication there.
+          </p>
+        )}
+
+        {status?.available && !status.enabled && !setup && (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? "Starting..." : "Set up two-factor authentication"}
+          </Button>
+        )}
+
+        {setup && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm">
+              Scan this code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-44 h-44 border border-border rounded" />
+            <p className="text-xs text-muted-foreground">
+              Can't scan it? Enter this key instead: <code className="break-all">{setup.secret}</code>
+            </p>
+            <InputOTP maxLength={6} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={code.length !== 6 || enableMutation.isPending}>
+                {enableMutation.isPending ? "Checking..." : "Turn on"}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {recoveryCodes && (
+          <div className="rounded-lg border border-border bg-muted p-4 space-y-2">
+            <p className="text-sm font-medium">
+              Save these recovery codes now. Each one signs you in once if you lose your device,
+              and they will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1">
+              {recoveryCodes.map((recoveryCode) => (
+                <code key={recoveryCode} className="text-xs">{recoveryCode}</code>
+              ))}
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => copyToClipboard(recoveryCodes.join("\n"))}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy codes
+            </Button>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesLeft} recovery code{status.recoveryCodesLeft === 1 ? "" : "s"} left.
+              Enter a code from your app, or a recovery code, to change these settings.
+            </p>
+            <div>
+              <Label htmlFor="two-factor-code">Code</Label>
+              <Input
+                id="two-factor-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => recoveryCodesMutation.mutate()}
+                disabled={!code.trim() || recoveryCodesMutation.isPending}
+              >
+                New recovery codes
+              </Button>
+              <Button
+                variant="outline"
+                className="text-red-600"
+                onClick={() => disableMutation.mutate()}
+                disabled={!code.trim() || disableMutation.isPending}
+              >
+                Turn off
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,14 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Upload, X } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { uploadFileResumable, HttpError, type UploadProgress } from "@/lib/resumableUpload";
+import { useWorkspace } from "@/hooks/useWorkspace";
 
 interface UploadModalProps {
   open: boolean;
@@ -17,26 +19,55 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [tags, setTags] = useState("");
   const [isDragOver, setIsDragOver] = useState(false);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { workspaceId } = useWorkspace();
 
   const uploadMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      const response = await apiRequest("POST", "/api/items/file", formData);
-      return response.json();
+    mutationFn: async ({ file, tags }: { file: File; tags: string[] }) => {
+      abortRef.current = new AbortController();
+      return uploadFileResumable(file, {
+        tags,
+        workspaceId,
+        onProgress: setProgress,
+        signal: abortRef.current.signal,
+      });
     },
-    onSuccess: () => {
+    onSuccess: (item) => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
       toast({
         title: "File uploaded successfully!",
-        description: "Your file is now available in your hub.",
+        description: item.duplicateOf
+          ? `This file is identical to "${item.duplicateOf.title}", which is already in your hub.`
+          : "Your file is now available in your hub.",
       });
       handleClose();
     },
-    onError: () => {
+    onError: (error) => {
+      setProgress(null);
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      if (error instanceof HttpError && error.status === 413) {
+        toast({
+          title: "Not enough space",
+          description: error.reason,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (error instanceof HttpError && error.status === 429) {
+        toast({
+          title: "Too many uploads",
+          description: error.reason,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Upload failed",
-        description: "Please try again.",
+        description: "Please try again. Completed chunks will not be sent twice.",
         variant: "destructive",
       });
     },
@@ -59,21 +90,28 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
     e.preventDefault();
     if (!file) return;
 
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("tags", JSON.stringify(tags.split(",").map(tag => tag.trim()).filter(Boolean)));
-
-    uploadMutation.mutate(formData);
+    uploadMutation.mutate({
+      file,
+      tags: tags.split(",").map(tag => tag.trim()).filter(Boolean),
+    });
   };
 
   const handleClose = () => {
+    // Abandoned uploads stay resumable: picking the same file again continues it
+    abortRef.current?.abort();
+    abortRef.current = null;
     setFile(null);
     setTags("");
+    setProgress(null);
     onOpenChange(false);
   };
 
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.loaded / progress.total) * 100)
+    : 0;
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : handleClose())}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>Upload File</DialogTitle>
@@ -145,6 +183,17 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
             />
           </div>
 
+          {uploadMutation.isPending && progress && (
+            <div className="space-y-1">
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {progress.retrying
+                  ? `Connection lost at ${percent}%, reconnecting...`
+                  : `${percent}% uploaded`}
+              </p>
+            </div>
+          )}
+
           <div className="flex space-x-2">
             <Button type="button" variant="outline" onClick={handleClose} className="flex-1">
               Cancel
@@ -154,7 +203,7 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
               disabled={!file || uploadMutation.isPending}
               className="flex-1"
             >
-              {uploadMutation.isPending ? "Uploading..." : "Upload"}
+              {uploadMutation.isPending ? `Uploading... ${percent}%` : "Upload"}
             </Button>
           </div>
         </form>
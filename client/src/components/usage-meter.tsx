@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { HardDrive } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn, formatFileSize } from "@/lib/utils";
+import type { MimeCategory, UsageReport } from "@/lib/types";
+
+// Share of the quota at which the meter starts warning
+const WARNING_THRESHOLD = 0.9;
+
+const categoryLabels: Record<MimeCategory, string> = {
+  image: "Images",
+  video: "Videos",
+  audio: "Audio",
+  document: "Documents",
+  text: "Text",
+  archive: "Archives",
+  other: "Other files",
+};
+
+const typeLabels: Record<string, string> = {
+  note: "Notes",
+  contact: "Contacts",
+  link: "Links",
+};
+
+function ratio(used: number, limit: number | null) {
+  return limit ? used / limit : 0;
+}
+
+export function UsageMeter() {
+  const { data: usage } = useQuery<UsageReport>({
+    queryKey: ["/api/usage"],
+  });
+
+  if (!usage) return null;
+
+  const { limits } = usage;
+  // Whichever limit is closer decides the state of the meter
+  const fill = Math.max(ratio(usage.bytes, limits.bytes), ratio(usage.items, limits.items));
+  const isFull = fill >= 1;
+  const isNearLimit = fill >= WARNING_THRESHOLD;
+
+  const categories = Object.entries(usage.byCategory) as [MimeCategory, { count: number; bytes: number }][];
+  const otherTypes = Object.entries(usage.byType).filter(([type]) => type !== "file");
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="hidden sm:flex items-center space-x-2 rounded-lg px-2 py-1 hover:bg-muted"
+          aria-label="Storage usage"
+        >
+          <HardDrive
+            className={cn(
+              "w-4 h-4",
+              isFull ? "text-destructive" : isNearLimit ? "text-amber-500" : "text-muted-foreground",
+            )}
+          />
+          <Progress
+            value={Math.min(fill, 1) * 100}
+            className={cn(
+              "h-2 w-20",
+              isFull ? "[&>div]:bg-destructive" : isNearLimit && "[&>div]:bg-amber-500",
+            )}
+          />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-3">
+        <div>
+          <p className="text-sm font-medium">
+            {formatFileSize(usage.bytes)}
+            {limits.bytes !== null && ` of ${formatFileSize(limits.bytes)}`} used
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {usage.items}
+            {limits.items !== null && ` of ${limits.items}`} items
+          </p>
+        </div>
+
+        {isNearLimit && (
+          <p className={cn("text-xs", isFull ? "text-destructive" : "text-amber-600")}>
+            {isFull
+              ? "Your storage is full. Delete items to upload more."
+              : "You are close to your storage limit."}
+          </p>
+        )}
+
+        {(categories.length > 0 || otherTypes.length > 0) && (
+          <ul className="space-y-1 text-sm">
+            {categories.map(([category, bucket]) => (
+              <li key={category} className="flex justify-between">
+                <span>{categoryLabels[category]}</span>
+                <span className="text-muted-foreground">{formatFileSize(bucket.bytes)}</span>
+              </li>
+            ))}
+            {otherTypes.map(([type, bucket]) => (
+              <li key={type} className="flex justify-between">
+                <span>{typeLabels[type] ?? type}</span>
+                <span className="text-muted-foreground">{bucket!.count}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
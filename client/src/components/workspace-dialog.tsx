@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { setActiveWorkspaceId } from "@/hooks/useWorkspace";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Workspace, WorkspaceMember, WorkspaceRole } from "@/lib/types";
+
+interface WorkspaceDialogProps {
+  // Null creates a new workspace
+  workspace: Workspace | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const roleOptions: { value: WorkspaceRole; label: string }[] = [
+  { value: "owner", label: "Owner" },
+  { value: "editor", label: "Editor" },
+  { value: "viewer", label: "Viewer" },
+];
+
+// apiRequest errors read "<status>: <body>"; show the server's message
+function errorMessage(error: Error) {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function memberName(member: WorkspaceMember) {
+  return member.firstName && member.lastName
+    ? `${member.firstName} ${member.lastName}`
+    : member.email || member.userId;
+}
+
+export function WorkspaceDialog({ workspace, open, onOpenChange }: WorkspaceDialogProps) {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isOwner = workspace?.role === "owner";
+  const membersKey = [`/api/workspaces/${workspace?.id}/members`];
+
+  useEffect(() => {
+    if (open) setName(workspace?.name ?? "");
+  }, [open, workspace]);
+
+  // Fails when the workspace requires two-factor authentication the user has not turned on
+  const { data: members = [], error: membersError } = useQuery<WorkspaceMember[]>({
+    queryKey: membersKey,
+    enabled: open && !!workspace,
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: errorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = workspace
+        ? await apiRequest("PATCH", `/api/workspaces/${workspace.id}`, { name })
+        : await apiRequest("POST", "/api/workspaces", { name });
+      return response.json() as Promise<Workspace>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      if (!workspace) {
+        setActiveWorkspaceId(saved.id);
+        onOpenChange(false);
+      }
+    },
+    onError,
+  });
+
+  const requireTwoFactorMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      await apiRequest("PATCH", `/api/workspaces/${workspace!.id}`, { requireTwoFactor });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/workspaces/${workspace!.id}`);
+    },
+    onSuccess: () => {
+      setActiveWorkspaceId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      onOpenChange(false);
+      toast({ title: "Workspace deleted" });
+    },
+    onError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/workspaces/${workspace!.id}/members`, { email, role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setEmail("");
+    },
+    onError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: WorkspaceRole }) => {
+      await apiRequest("PATCH", `/api/workspaces/${workspace!.id}/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/workspaces/${workspace!.id}/members/${userId}`);
+    },
+    onSuccess: (_, userId) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      // Leaving drops the workspace from the switcher
+      if (userId === user?.id) {
+        setActiveWorkspaceId(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+        onOpenChange(false);
+      }
+    },
+    onError,
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    addMemberMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{workspace ? workspace.name : "New workspace"}</DialogTitle>
+        </DialogHeader>
+
+        {(!workspace || isOwner) && (
+          <form onSubmit={handleSave} className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input
+                id="workspace-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Project Apollo"
+              />
+            </div>
+            <Button type="submit" disabled={!name.trim() || saveMutation.isPending}>
+              {workspace ? "Rename" : "Create"}
+            </Button>
+          </form>
+        )}
+
+        {workspace && isOwner && (
+          <div className="flex items-center justify-between gap-4 border-t border-border pt-4">
+            <div>
+              <Label htmlFor="workspace-require-2fa">Require two-factor authentication</Label>
+              <p className="text-xs text-muted-foreground">
+                Members who sign in with a password cannot open this workspace until they turn it on in
+                Settings. Single sign-on accounts rely on their provider's.
+              </p>
+            </div>
+            <Switch
+              id="workspace-require-2fa"
+              checked={workspace.requireTwoFactor}
+              onCheckedChange={(checked) => requireTwoFactorMutation.mutate(checked)}
+              disabled={requireTwoFactorMutation.isPending}
+            />
+          </div>
+        )}
+
+        {workspace && membersError && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <p className="text-sm text-muted-foreground">{errorMessage(membersError)}</p>
+            <Button
+              variant="outline"
+              className="text-red-600"
+              onClick={() => removeMemberMutation.mutate(user!.id)}
+              disabled={!user || removeMemberMutation.isPending}
+            >
+              Leave workspace
+            </Button>
+          </div>
+        )}
+
+        {workspace && !membersError && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <h4 className="text-sm font-medium">Members</h4>
+            {members.map((member) => (
+              <div key={member.userId} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{memberName(member)}</p>
+                  {member.email && (
+                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                  )}
+                </div>
+                {isOwner ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) =>
+                      updateMemberMutation.mutate({ userId: member.userId, role: value as WorkspaceRole })
+                    }
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roleOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-xs text-muted-foreground capitalize">{member.role}</span>
+                )}
+                {(isOwner || member.userId === user?.id) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="p-1 h-auto text-red-600"
+                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                    disabled={removeMemberMutation.isPending}
+                    title={member.userId === user?.id ? "Leave workspace" : "Remove member"}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {isOwner && (
+              <form onSubmit={handleAddMember} className="flex items-end gap-2 pt-2">
+                <div className="flex-1">
+                  <Label htmlFor="member-email">Add by email</Label>
+                  <Input
+                    id="member-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="teammate@example.com"
+                  />
+                </div>
+                <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roleOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={!email || addMemberMutation.isPending}>
+                  Add
+                </Button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {workspace && isOwner && (
+          <div className="border-t border-border pt-4">
+            <Button
+              variant="outline"
+              className="text-red-600"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              Delete workspace
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Check, ChevronDown, Plus, Settings, User, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { WorkspaceDialog } from "./workspace-dialog";
+
+// Switches between the personal space and shared workspaces
+export function WorkspaceSwitcher() {
+  const { workspaces, workspace, setWorkspaceId } = useWorkspace();
+  const [dialogMode, setDialogMode] = useState<"create" | "manage" | null>(null);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="flex items-center space-x-1 max-w-48">
+            {workspace ? <Users className="w-4 h-4 shrink-0" /> : <User className="w-4 h-4 shrink-0" />}
+            <span className="truncate">{workspace ? workspace.name : "Personal"}</span>
+            <ChevronDown className="w-3 h-3 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuItem onClick={() => setWorkspaceId(null)}>
+            <User className="w-4 h-4 mr-2" />
+            <span className="flex-1">Personal</span>
+            {!workspace && <Check className="w-4 h-4" />}
+          </DropdownMenuItem>
+          {workspaces.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">Workspaces</DropdownMenuLabel>
+              {workspaces.map((w) => (
+                <DropdownMenuItem key={w.id} onClick={() => setWorkspaceId(w.id)}>
+                  <Users className="w-4 h-4 mr-2" />
+                  <span className="flex-1 truncate">{w.name}</span>
+                  {workspace?.id === w.id && <Check className="w-4 h-4" />}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          {workspace && (
+            <DropdownMenuItem onClick={() => setDialogMode("manage")}>
+              <Settings className="w-4 h-4 mr-2" />
+              Manage workspace
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setDialogMode("create")}>
+            <Plus className="w-4 h-4 mr-2" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <WorkspaceDialog
+        workspace={dialogMode === "manage" ? workspace : null}
+        open={dialogMode !== null}
+        onOpenChange={(open) => !open && setDialogMode(null)}
+      />
+    </>
+  );
+}
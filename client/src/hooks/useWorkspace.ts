@@ -0,0 +1,48 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Workspace } from "@/lib/types";
+
+// The active workspace is kept per browser, so a reload stays where it was
+const STORAGE_KEY = "infospace:workspace";
+const listeners = new Set<() => void>();
+
+function readActiveId(): number | null {
+  const value = localStorage.getItem(STORAGE_KEY);
+  return value ? Number(value) : null;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setActiveWorkspaceId(id: number | null) {
+  if (id === null) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, String(id));
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// The workspace items are listed from and created in; null is the personal space
+export function useWorkspace() {
+  const activeId = useSyncExternalStore(subscribe, readActiveId);
+  const { data: workspaces = [], isLoading } = useQuery<Workspace[]>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  // Back to personal items once a workspace is deleted or access is removed
+  const workspace = workspaces.find((w) => w.id === activeId) ?? null;
+
+  return {
+    workspaces,
+    workspace,
+    workspaceId: workspace?.id ?? null,
+    isLoading,
+    canEdit: !workspace || workspace.role !== "viewer",
+    setWorkspaceId: setActiveWorkspaceId,
+  };
+}
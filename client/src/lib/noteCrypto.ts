@@ -0,0 +1,107 @@
+import type { Item, NoteEncryption } from "./types";
+
+// End-to-end encryption for notes. A key is derived from the user's
+// passphrase with PBKDF2 and {title, content} is sealed with AES-GCM; the
+// passphrase and plaintext never leave the browser.
+
+const ITERATIONS = 600_000;
+
+export interface PlainNote {
+  title: string;
+  content: string;
+}
+
+export interface SealedNote {
+  ciphertext: string;
+  encryption: NoteEncryption;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+// The ciphertext and descriptor of an encrypted note, undefined for anything else
+export function getSealedNote(item: Pick<Item, "type" | "content" | "metadata">): SealedNote | undefined {
+  if (item.type !== "note" || !item.content || !item.metadata || !("encryption" in item.metadata)) {
+    return undefined;
+  }
+  const { encryption } = item.metadata;
+  return encryption ? { ciphertext: item.content, encryption } : undefined;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// Every call uses a new salt and IV, including re-encrypting an edited note
+export async function encryptNote(note: PlainNote, passphrase: string): Promise<SealedNote> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(note)),
+  );
+
+  return {
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+    encryption: {
+      version: 1,
+      algorithm: "AES-GCM-256",
+      kdf: "PBKDF2-SHA256",
+      iterations: ITERATIONS,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+    },
+  };
+}
+
+// Throws WrongPassphraseError when the passphrase does not match
+export async function decryptNote(sealed: SealedNote, passphrase: string): Promise<PlainNote> {
+  const { encryption } = sealed;
+  const key = await deriveKey(passphrase, fromBase64(encryption.salt), encryption.iterations);
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(encryption.iv) },
+      key,
+      fromBase64(sealed.ciphertext),
+    );
+  } catch {
+    // AES-GCM cannot tell a wrong key from tampered data
+    throw new WrongPassphraseError();
+  }
+
+  const note = JSON.parse(new TextDecoder().decode(plaintext));
+  return { title: String(note.title ?? ""), content: String(note.content ?? "") };
+}
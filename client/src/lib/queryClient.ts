@@ -1,6 +1,24 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// A 429 from the server's rate limits; the message says when to try again
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfter: number) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+// Toast text for a failed request: the reason when it was throttled, the fallback otherwise
+export function errorDescription(error: unknown, fallback = "Please try again."): string {
+  return error instanceof RateLimitError ? error.message : fallback;
+}
+
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 429) {
+    const retryAfter = parseInt(res.headers.get("Retry-After") ?? "") || 60;
+    const body = await res.json().catch(() => ({}));
+    throw new RateLimitError(body.message ?? "Too many requests. Please wait a moment and try again.", retryAfter);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -0,0 +1,223 @@
+import type { Item } from "./types";
+
+// Client for the resumable upload API in server/uploads.ts. Chunks are sent
+// one at a time; after a network error the upload waits, asks the server
+// how far it got and carries on from there. Upload ids are remembered in
+// localStorage so re-selecting the same file after a reload resumes it too.
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  // True while waiting to reconnect after a failed chunk
+  retrying: boolean;
+}
+
+interface UploadOptions {
+  tags: string[];
+  // Null uploads to the personal space
+  workspaceId: number | null;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+// The created item, plus an existing item with identical content if any
+export type UploadedItem = Item & {
+  duplicateOf: { id: number; title: string } | null;
+};
+
+interface UploadSession {
+  id: string;
+  size: number;
+  offset: number;
+  chunkSize: number;
+}
+
+const STORAGE_PREFIX = "infospace:upload:";
+const MAX_RETRY_DELAY = 30_000;
+
+export class HttpError extends Error {
+  constructor(public status: number, public reason: string, public retryAfter?: number) {
+    super(`${status}: ${reason}`);
+  }
+}
+
+// Seconds from a 429's Retry-After header
+function parseRetryAfter(value: string | null): number | undefined {
+  return parseInt(value ?? "") || undefined;
+}
+
+// Sessions are tied to their workspace, so the same file resumes per workspace
+function fileFingerprint(file: File, workspaceId: number | null): string {
+  return `${STORAGE_PREFIX}${workspaceId ?? "personal"}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// API errors are JSON with a message; anything else is passed through as text
+async function readError(res: Response): Promise<HttpError> {
+  const text = await res.text();
+  const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+  try {
+    return new HttpError(res.status, JSON.parse(text).message ?? text, retryAfter);
+  } catch {
+    return new HttpError(res.status, text || res.statusText, retryAfter);
+  }
+}
+
+async function createSession(file: File, tags: string[], workspaceId: number | null): Promise<UploadSession> {
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({
+      fileName: file.name,
+      mimeType: file.type || undefined,
+      size: file.size,
+      tags,
+      workspaceId,
+    }),
+  });
+  if (!res.ok) throw await readError(res);
+  return res.json();
+}
+
+// A remembered session the server no longer knows about resolves to null
+async function fetchSession(id: string): Promise<UploadSession | null> {
+  const res = await fetch(`/api/uploads/${id}`, { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw await readError(res);
+  return res.json();
+}
+
+// XMLHttpRequest rather than fetch, for progress events within a chunk
+function sendChunk(
+  session: UploadSession,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", `/api/uploads/${session.id}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(session.offset));
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener("abort", abort);
+    const cleanup = () => signal?.removeEventListener("abort", abort);
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status === 204) {
+        resolve(parseInt(xhr.getResponseHeader("Upload-Offset") ?? "0"));
+      } else {
+        reject(new HttpError(
+          xhr.status,
+          xhr.responseText || xhr.statusText,
+          parseRetryAfter(xhr.getResponseHeader("Retry-After")),
+        ));
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError("Network error"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException("Upload aborted", "AbortError"));
+    };
+
+    xhr.send(chunk);
+  });
+}
+
+async function finalizeSession(session: UploadSession): Promise<UploadedItem> {
+  const res = await fetch(`/api/uploads/${session.id}/finalize`, {
+    method: "POST",
+    credentials: "include",
+  });
+  if (!res.ok) throw await readError(res);
+  return res.json();
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    // Coming back online is a good moment to try again
+    window.addEventListener("online", done);
+    signal?.addEventListener("abort", onAbort);
+
+    function cleanup() {
+      clearTimeout(timer);
+      window.removeEventListener("online", done);
+      signal?.removeEventListener("abort", onAbort);
+    }
+    function done() {
+      cleanup();
+      resolve();
+    }
+    function onAbort() {
+      cleanup();
+      reject(new DOMException("Upload aborted", "AbortError"));
+    }
+  });
+}
+
+// Network failures, server hiccups and rate limits are worth retrying; other client errors are not
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 409 || error.status === 429;
+  }
+  return error instanceof TypeError;
+}
+
+export async function uploadFileResumable(file: File, options: UploadOptions): Promise<UploadedItem> {
+  const { tags, workspaceId, onProgress, signal } = options;
+  const fingerprint = fileFingerprint(file, workspaceId);
+
+  const rememberedId = localStorage.getItem(fingerprint);
+  let session = (rememberedId && (await fetchSession(rememberedId))) || null;
+  if (!session) {
+    session = await createSession(file, tags, workspaceId);
+    localStorage.setItem(fingerprint, session.id);
+  }
+
+  const report = (loaded: number, retrying = false) =>
+    onProgress?.({ loaded, total: file.size, retrying });
+
+  let retryDelay = 1000;
+  report(session.offset);
+
+  while (session.offset < session.size) {
+    const start = session.offset;
+    const chunk = file.slice(start, Math.min(start + session.chunkSize, session.size));
+
+    try {
+      const offset = await sendChunk(session, chunk, (loaded) => report(start + loaded), signal);
+      session = { ...session, offset };
+      retryDelay = 1000;
+      report(offset);
+    } catch (error) {
+      if (!isRetryable(error)) throw error;
+
+      report(start, true);
+      // A throttled chunk waits as long as the server asked
+      const retryAfter = error instanceof HttpError && error.retryAfter ? error.retryAfter * 1000 : 0;
+      await wait(Math.max(retryDelay, retryAfter), signal);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+
+      // Ask the server how much actually arrived before sending more
+      try {
+        const current = await fetchSession(session.id);
+        if (!current) throw new Error("Upload expired; please start again");
+        session = current;
+      } catch (resyncError) {
+        if (!isRetryable(resyncError)) throw resyncError;
+      }
+    }
+  }
+
+  const item = await finalizeSession(session);
+  localStorage.removeItem(fingerprint);
+  return item;
+}
@@ -1,18 +1,46 @@
-export interface Item {
+// Files are scanned after upload and can only be opened once clean; null
+// for files uploaded before scanning was added
+export type ScanStatus = 'pending' | 'clean' | 'quarantined' | 'failed';
+
+// Text is extracted from documents for search once they are scanned;
+// quarantined files are skipped, null for items that are not files
+export type ExtractionStatus = 'pending' | 'done' | 'unsupported' | 'skipped' | 'failed';
+
+interface BaseItem {
   id: number;
   title: string;
   content: string | null;
-  type: 'file' | 'note' | 'contact' | 'link';
   fileUrl: string | null;
   fileName: string | null;
   fileSize: number | null;
   mimeType: string | null;
+  objectKey: string | null;
+  workspaceId: number | null;
   tags: string[];
-  metadata: string | null;
+  scanStatus: ScanStatus | null;
+  // Why a quarantined file was quarantined
+  scanResult: string | null;
+  extractionStatus: ExtractionStatus | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type FileMetadata = Record<string, never>;
+
+// How an end-to-end encrypted note's ciphertext was produced, see lib/noteCrypto
+export interface NoteEncryption {
+  version: 1;
+  algorithm: 'AES-GCM-256';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+}
+
+export interface NoteMetadata {
+  encryption?: NoteEncryption;
+}
+
 export interface ContactMetadata {
   email?: string;
   phone?: string;
@@ -24,6 +52,73 @@ export interface LinkMetadata {
   url: string;
 }
 
+export interface FileItem extends BaseItem {
+  type: 'file';
+  metadata: FileMetadata | null;
+}
+
+export interface NoteItem extends BaseItem {
+  type: 'note';
+  metadata: NoteMetadata | null;
+}
+
+export interface ContactItem extends BaseItem {
+  type: 'contact';
+  metadata: ContactMetadata | null;
+}
+
+export interface LinkItem extends BaseItem {
+  type: 'link';
+  metadata: LinkMetadata | null;
+}
+
+export type Item = FileItem | NoteItem | ContactItem | LinkItem;
+
+export type MimeCategory = 'image' | 'video' | 'audio' | 'document' | 'text' | 'archive' | 'other';
+
+export interface UsageBucket {
+  count: number;
+  bytes: number;
+}
+
+export interface UsageReport {
+  bytes: number;
+  items: number;
+  // null means unlimited
+  limits: { bytes: number | null; items: number | null };
+  byType: Partial<Record<FilterType, UsageBucket>>;
+  byCategory: Partial<Record<MimeCategory, UsageBucket>>;
+}
+
+// A share link as its owner sees it
+export interface ShareLink {
+  id: string;
+  itemId: number;
+  token: string;
+  url: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  maxDownloads: number | null;
+  downloadCount: number;
+  createdAt: string;
+}
+
+// The read-only view of an item that share link visitors get
+export interface SharedItem {
+  title: string;
+  type: Item['type'];
+  content: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  metadata: Item['metadata'];
+  fileUrl: string | null;
+  scanStatus: ScanStatus | null;
+  createdAt: string;
+  expiresAt: string | null;
+  downloadsRemaining: number | null;
+}
+
 export type FilterType = 'all' | 'file' | 'note' | 'contact' | 'link';
 
 export interface User {
@@ -35,3 +130,113 @@ export interface User {
   createdAt: Date | null;
   updatedAt: Date | null;
 }
+
+export interface AuthProviderInfo {
+  id: string;
+  label: string;
+  kind: 'redirect' | 'password';
+}
+
+export interface TwoFactorStatus {
+  // Only email and password accounts can turn it on
+  available: boolean;
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  // Names of the user's workspaces that require it
+  requiredBy: string[];
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  uri: string;
+  // PNG data URL of the otpauth:// URI
+  qrCode: string;
+}
+
+export type ApiTokenScope = 'read' | 'write' | 'files';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// Only the create response carries the secret
+export interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+// A browser session the user is signed in with
+export interface UserSession {
+  sid: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  // The session this browser is using
+  current: boolean;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+// A workspace with the current user's role in it
+export interface Workspace {
+  id: number;
+  name: string;
+  role: WorkspaceRole;
+  createdBy: string;
+  // Members without two-factor authentication cannot open the workspace
+  requireTwoFactor: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceMember {
+  workspaceId: number;
+  userId: string;
+  role: WorkspaceRole;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+  createdAt: string;
+}
+
+export type AuditAction =
+  | 'item.create'
+  | 'item.update'
+  | 'item.delete'
+  | 'item.download'
+  | 'share.create'
+  | 'share.revoke'
+  | 'share.download'
+  | 'token.create'
+  | 'token.revoke'
+  | 'session.revoke'
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.2fa_enable'
+  | 'auth.2fa_disable'
+  | 'workspace.update';
+
+export interface AuditEvent {
+  id: number;
+  action: AuditAction;
+  userId: string;
+  // Null for share link visitors and failed sign-ins
+  actorId: string | null;
+  actor: Pick<User, 'email' | 'firstName' | 'lastName'> | null;
+  workspaceId: number | null;
+  itemId: number | null;
+  itemTitle: string | null;
+  changedFields: string[] | null;
+  details: Record<string, unknown> | null;
+  // Only set on events in the user's own log
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, History } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import type { AuditAction, AuditEvent } from "@/lib/types";
+
+const PAGE_SIZE = 50;
+
+const actionLabels: Record<AuditAction, string> = {
+  "item.create": "Created",
+  "item.update": "Edited",
+  "item.delete": "Deleted",
+  "item.download": "Downloaded",
+  "share.create": "Shared",
+  "share.revoke": "Revoked share link",
+  "share.download": "Downloaded via share link",
+  "token.create": "Created API token",
+  "token.revoke": "Revoked API token",
+  "session.revoke": "Signed out",
+  "auth.login": "Signed in",
+  "auth.login_failed": "Failed sign-in",
+  "auth.2fa_enable": "Turned on two-factor authentication",
+  "auth.2fa_disable": "Turned off two-factor authentication",
+  "workspace.update": "Changed workspace settings",
+};
+
+function describeActor(event: AuditEvent): string {
+  if (event.action === "share.download") return "A share link visitor";
+  if (!event.actor) return "Someone";
+  if (event.actor.firstName && event.actor.lastName) {
+    return `${event.actor.firstName} ${event.actor.lastName}`;
+  }
+  return event.actor.email || "Someone";
+}
+
+function describeTarget(event: AuditEvent): string | null {
+  if (event.itemTitle) return event.itemTitle;
+  if (event.details && typeof event.details.name === "string") return event.details.name;
+  if (event.details && typeof event.details.provider === "string") return `with ${event.details.provider}`;
+  if (event.details && typeof event.details.device === "string") return `on ${event.details.device}`;
+  if (event.details && typeof event.details.sessions === "number") return "everywhere";
+  if (event.details && typeof event.details.requireTwoFactor === "boolean") {
+    return event.details.requireTwoFactor ? "to require two-factor authentication" : "to not require two-factor authentication";
+  }
+  return null;
+}
+
+export default function Activity() {
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [scope, setScope] = useState("all");
+  const { workspaces } = useWorkspace();
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<AuditEvent[]>({
+    queryKey: ["/api/activity", action, scope],
+    initialPageParam: undefined,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (action !== "all") params.append("action", action);
+      if (scope !== "all") params.append("workspace", scope);
+      if (pageParam) params.append("before", String(pageParam));
+
+      const response = await fetch(`/api/activity?${params.toString()}`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch activity");
+      }
+
+      return response.json();
+    },
+    // Older pages start below the oldest event seen so far
+    getNextPageParam: (lastPage) =>
+      lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].id : undefined,
+  });
+
+  const events = data?.pages.flat() ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Activity</h1>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Select value={action} onValueChange={(value) => setAction(value as AuditAction | "all")}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All activity</SelectItem>
+              {(Object.keys(actionLabels) as AuditAction[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {actionLabels[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {workspaces.length > 0 && (
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everywhere</SelectItem>
+                {workspaces.map((workspace) => (
+                  <SelectItem key={workspace.id} value={String(workspace.id)}>
+                    {workspace.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 6 }).map((_, i) => (
+              <div key={i} className="h-14 bg-muted rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-16">
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <History className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">No activity found</h3>
+            <p className="text-muted-foreground">
+              {action !== "all" || scope !== "all"
+                ? "Try adjusting your filters"
+                : "Changes to your items and account will show up here"
+              }
+            </p>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="divide-y divide-border p-0">
+              {events.map((event) => {
+                const target = describeTarget(event);
+                return (
+                  <div key={event.id} className="flex items-start justify-between gap-4 px-4 py-3">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm">
+                        <span className="font-medium">{describeActor(event)}</span>
+                        {" "}
+                        <span className="text-muted-foreground">{actionLabels[event.action].toLowerCase()}</span>
+                        {target && <span className="font-medium"> {target}</span>}
+                      </p>
+                      {event.changedFields && event.changedFields.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {event.changedFields.map((field) => (
+                            <Badge key={field} variant="secondary" className="text-xs">
+                              {field}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {event.ipAddress && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {event.ipAddress}
+                          {event.userAgent && ` · ${event.userAgent}`}
+                        </p>
+                      )}
+                    </div>
+                    <span
+                      className="text-xs text-muted-foreground whitespace-nowrap"
+                      title={new Date(event.createdAt).toLocaleString()}
+                    >
+                      {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {hasNextPage && (
+          <div className="text-center">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
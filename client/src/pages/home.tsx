@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Plus, LogOut } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useWorkspace } from "@/hooks/useWorkspace";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Header } from "@/components/header";
@@ -22,11 +23,21 @@ export default function Home() {
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
   const [isContactModalOpen, setIsContactModalOpen] = useState(false);
   const [isLinkModalOpen, setIsLinkModalOpen] = useState(false);
+  const { workspace, workspaceId, canEdit, isLoading: isWorkspaceLoading } = useWorkspace();
 
-  const { data: items = [], isLoading } = useQuery<Item[]>({
-    queryKey: ["/api/items", searchQuery, activeFilter],
+  const { data: items = [], isLoading, error } = useQuery<Item[]>({
+    queryKey: ["/api/items", workspaceId, searchQuery, activeFilter],
+    enabled: !isWorkspaceLoading,
+    // Poll while uploaded files are being scanned or their text extracted;
+    // files whose scan failed wait for a rescan
+    refetchInterval: (query) =>
+      query.state.data?.some((item) => item.scanStatus === "pending"
+        || (item.extractionStatus === "pending" && item.scanStatus !== "failed"))
+        ? 3000
+        : false,
     queryFn: async () => {
       const params = new URLSearchParams();
+      if (workspaceId !== null) params.append("workspace", String(workspaceId));
       if (searchQuery) params.append("search", searchQuery);
       if (activeFilter !== "all") params.append("type", activeFilter);
       
@@ -35,7 +46,9 @@ export default function Home() {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to fetch items");
+        // A search that cannot be parsed comes back with what to change
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message ?? "Failed to fetch items");
       }
       
       return response.json();
@@ -47,16 +60,21 @@ export default function Home() {
       <Header searchQuery={searchQuery} onSearchChange={setSearchQuery} />
       
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <QuickActions
-          onFileUpload={() => setIsUploadModalOpen(true)}
-          onAddNote={() => setIsNoteModalOpen(true)}
-          onAddContact={() => setIsContactModalOpen(true)}
-          onAddLink={() => setIsLinkModalOpen(true)}
-        />
+        {/* Viewers can browse a workspace but not add to it */}
+        {canEdit && (
+          <>
+            <QuickActions
+              onFileUpload={() => setIsUploadModalOpen(true)}
+              onAddNote={() => setIsNoteModalOpen(true)}
+              onAddContact={() => setIsContactModalOpen(true)}
+              onAddLink={() => setIsLinkModalOpen(true)}
+            />
 
-        <div className="mb-6">
-          <QuickNote />
-        </div>
+            <div className="mb-6">
+              <QuickNote />
+            </div>
+          </>
+        )}
 
         <FilterTabs 
           activeFilter={activeFilter} 
@@ -69,6 +87,13 @@ export default function Home() {
               <div key={i} className="h-48 bg-muted rounded-lg animate-pulse" />
             ))}
           </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <h3 className="text-lg font-medium mb-2">
+              {searchQuery ? "Check your search" : "Failed to load items"}
+            </h3>
+            <p className="text-muted-foreground">{error.message}</p>
+          </div>
         ) : items.length === 0 ? (
           <div className="text-center py-16">
             <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
@@ -78,13 +103,17 @@ export default function Home() {
             <p className="text-muted-foreground mb-6">
               {searchQuery 
                 ? "Try adjusting your search or filters"
-                : "Start by uploading a file, creating a note, or adding a contact"
+                : !canEdit
+                  ? `Nothing has been added to ${workspace?.name} yet`
+                  : "Start by uploading a file, creating a note, or adding a contact"
               }
             </p>
-            <Button onClick={() => setIsUploadModalOpen(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              Add First Item
-            </Button>
+            {canEdit && (
+              <Button onClick={() => setIsUploadModalOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add First Item
+              </Button>
+            )}
           </div>
         ) : (
           <>
@@ -104,12 +133,14 @@ export default function Home() {
       </main>
 
       {/* Floating Action Button */}
-      <Button
-        className="fixed bottom-6 right-6 w-14 h-14 rounded-full shadow-lg hover:shadow-xl transition-shadow z-40"
-        onClick={() => setIsUploadModalOpen(true)}
-      >
-        <Plus className="w-6 h-6" />
-      </Button>
+      {canEdit && (
+        <Button
+          className="fixed bottom-6 right-6 w-14 h-14 rounded-full shadow-lg hover:shadow-xl transition-shadow z-40"
+          onClick={() => setIsUploadModalOpen(true)}
+        >
+          <Plus className="w-6 h-6" />
+        </Button>
+      )}
 
       {/* Modals */}
       <UploadModal 
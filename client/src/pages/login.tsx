@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import type { AuthProviderInfo } from "@/lib/types";
+
+async function postJson(url: string, body: unknown, fallback: string) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.errors?.[0]?.message ?? data.message ?? fallback);
+  }
+  return data;
+}
+
+// Offers every configured sign-in method: a button per redirect provider and
+// an email/password form when local accounts are enabled. Accounts with
+// two-factor authentication are asked for a code after the password.
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<"signin" | "register" | "code">("signin");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [form, setForm] = useState({ email: "", password: "", firstName: "", lastName: "" });
+
+  const { data: providers = [], isLoading } = useQuery<AuthProviderInfo[]>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  const redirectProviders = providers.filter((provider) => provider.kind === "redirect");
+  const hasLocal = providers.some((provider) => provider.id === "local");
+
+  const signedIn = () => {
+    setLocation("/");
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  const localMutation = useMutation({
+    mutationFn: async (): Promise<{ twoFactorRequired?: boolean }> => {
+      if (mode === "register") {
+        return postJson("/api/auth/local/register", form, "Sign-up failed");
+      }
+      return postJson("/api/auth/local/login", { email: form.email, password: form.password }, "Sign-in failed");
+    },
+    onSuccess: (result) => {
+      if (result.twoFactorRequired) {
+        setMode("code");
+        setCode("");
+        return;
+      }
+      signedIn();
+    },
+  });
+
+  const codeMutation = useMutation({
+    mutationFn: () => postJson("/api/auth/local/2fa", { code }, "Sign-in failed"),
+    onSuccess: signedIn,
+    onError: (error) => {
+      // Too many wrong codes end the attempt; the password is needed again
+      if (error.message.startsWith("Too many") || error.message.startsWith("Sign in with your password")) {
+        setMode("signin");
+        localMutation.reset();
+      }
+      setCode("");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    localMutation.mutate();
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    codeMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <div className="w-4 h-4 bg-white rounded-sm"></div>
+            </div>
+            <h1 className="text-xl font-semibold">Sign in to InfoSpace</h1>
+          </div>
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+          {redirectProviders.map((provider) => (
+            <Button key={provider.id} variant="outline" className="w-full" asChild>
+              <a href={`/api/login/${provider.id}`}>Continue with {provider.label}</a>
+            </Button>
+          ))}
+
+          {hasLocal && redirectProviders.length > 0 && <Separator />}
+
+          {hasLocal && mode === "code" && (
+            <form onSubmit={handleCodeSubmit} className="space-y-3">
+              <p className="text-sm">
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </p>
+              {useRecoveryCode ? (
+                <Input
+                  autoFocus
+                  autoComplete="off"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                />
+              ) : (
+                <InputOTP autoFocus maxLength={6} value={code} onChange={setCode} autoComplete="one-time-code">
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              )}
+              {codeMutation.isError && (
+                <p className="text-xs text-red-600">{codeMutation.error.message}</p>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!code.trim() || codeMutation.isPending}
+              >
+                Verify
+              </Button>
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:underline w-full"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                  codeMutation.reset();
+                }}
+              >
+                {useRecoveryCode ? "Use a code from your app" : "Lost your device? Use a recovery code"}
+              </button>
+            </form>
+          )}
+
+          {hasLocal && mode !== "code" && (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              {mode === "register" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="login-first-name">First name</Label>
+                    <Input
+                      id="login-first-name"
+                      value={form.firstName}
+                      onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="login-last-name">Last name</Label>
+                    <Input
+                      id="login-last-name"
+                      value={form.lastName}
+                      onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="login-email">Email</Label>
+                <Input
+                  id="login-email"
+                  type="email"
+                  autoComplete="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="login-password">Password</Label>
+                <Input
+                  id="login-password"
+                  type="password"
+                  autoComplete={mode === "signin" ? "current-password" : "new-password"}
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                />
+              </div>
+              {localMutation.isError && (
+                <p className="text-xs text-red-600">{localMutation.error.message}</p>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!form.email || !form.password || localMutation.isPending}
+              >
+                {mode === "signin" ? "Sign In" : "Create Account"}
+              </Button>
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:underline w-full"
+                onClick={() => {
+                  setMode(mode === "signin" ? "register" : "signin");
+                  localMutation.reset();
+                }}
+              >
+                {mode === "signin" ? "New here? Create an account" : "Already have an account? Sign in"}
+              </button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { Link } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ApiTokens } from "@/components/api-tokens";
+import { ActiveSessions } from "@/components/active-sessions";
+import { TwoFactor } from "@/components/two-factor";
+
+export default function Settings() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Settings</h1>
+        </div>
+
+        <TwoFactor />
+
+        <ActiveSessions />
+
+        <ApiTokens />
+      </div>
+    </div>
+  );
+}
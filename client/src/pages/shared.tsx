@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Download, ExternalLink, Lock, Mail, Phone } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatFileSize } from "@/lib/utils";
+import { getSealedNote, type PlainNote } from "@/lib/noteCrypto";
+import { EncryptedNoteUnlock } from "@/components/encrypted-note-unlock";
+import type { ContactMetadata, LinkMetadata, SharedItem } from "@/lib/types";
+
+type SharedResult =
+  | { status: "ok"; item: SharedItem }
+  | { status: "locked" }
+  | { status: "unavailable"; message: string };
+
+// Read-only view of an item opened through a share link. Works signed out.
+export default function Shared() {
+  const { token } = useParams<{ token: string }>();
+  const [password, setPassword] = useState("");
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/shared/${token}`];
+
+  const { data, isLoading } = useQuery<SharedResult>({
+    queryKey,
+    queryFn: async () => {
+      const res = await fetch(`/api/shared/${token}`, { credentials: "include" });
+      if (res.ok) return { status: "ok", item: await res.json() };
+      if (res.status === 401) return { status: "locked" };
+      const body = await res.json().catch(() => ({}));
+      return { status: "unavailable", message: body.message ?? "This link is not available." };
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/shared/${token}/unlock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ password }),
+      });
+      if (!res.ok) throw new Error("Incorrect password");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    unlockMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-lg">
+        <CardContent className="pt-6">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+          {data?.status === "unavailable" && (
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-6 w-6 text-red-500" />
+              <p className="text-sm">{data.message}</p>
+            </div>
+          )}
+
+          {data?.status === "locked" && (
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Lock className="h-5 w-5 text-muted-foreground" />
+                <h1 className="text-lg font-semibold">This item is password protected</h1>
+              </div>
+              <div>
+                <Label htmlFor="share-password">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoFocus
+                />
+                {unlockMutation.isError && (
+                  <p className="text-xs text-red-600 mt-1">Incorrect password</p>
+                )}
+              </div>
+              <Button type="submit" className="w-full" disabled={!password || unlockMutation.isPending}>
+                {unlockMutation.isPending ? "Checking..." : "Open"}
+              </Button>
+            </form>
+          )}
+
+          {data?.status === "ok" && <SharedItemView item={data.item} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function SharedItemView({ item }: { item: SharedItem }) {
+  // Encrypted notes are decrypted here with a passphrase shared separately
+  const sealed = getSealedNote(item);
+  const [unlocked, setUnlocked] = useState<PlainNote | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-xl font-semibold">{unlocked?.title ?? item.title}</h1>
+
+      {item.type === "file" && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {item.fileName}
+            {item.fileSize !== null && ` • ${formatFileSize(item.fileSize)}`}
+          </p>
+          {item.scanStatus === "pending" && (
+            <p className="text-sm text-muted-foreground">
+              This file is still being checked for malware. Try again in a moment.
+            </p>
+          )}
+          {item.scanStatus === "quarantined" && (
+            <p className="text-sm text-destructive">This file is not available for download.</p>
+          )}
+          {item.scanStatus === "failed" && (
+            <p className="text-sm text-muted-foreground">
+              This file could not be checked for malware yet, so it cannot be downloaded.
+            </p>
+          )}
+          {item.fileUrl && (!item.scanStatus || item.scanStatus === "clean") && (
+            <Button asChild className="w-full">
+              <a href={`${item.fileUrl}&action=download`}>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </a>
+            </Button>
+          )}
+          {item.downloadsRemaining !== null && (
+            <p className="text-xs text-muted-foreground">
+              {item.downloadsRemaining} download{item.downloadsRemaining === 1 ? "" : "s"} left
+            </p>
+          )}
+        </div>
+      )}
+
+      {sealed && !unlocked && (
+        <EncryptedNoteUnlock sealed={sealed} onUnlock={setUnlocked} />
+      )}
+
+      {item.type === "note" && (!sealed || unlocked) && (
+        <div className="bg-muted p-4 rounded-lg">
+          <p className="whitespace-pre-wrap text-sm">{(unlocked?.content ?? item.content) || "No content"}</p>
+        </div>
+      )}
+
+      {item.type === "contact" && (() => {
+        const contact = (item.metadata ?? {}) as ContactMetadata;
+        return (
+          <div className="space-y-2 text-sm">
+            {contact.role && <p>{contact.role}{contact.company && ` at ${contact.company}`}</p>}
+            {contact.email && (
+              <p className="flex items-center gap-2">
+                <Mail className="w-4 h-4 text-muted-foreground" />
+                <a href={`mailto:${contact.email}`} className="text-blue-600 hover:underline">{contact.email}</a>
+              </p>
+            )}
+            {contact.phone && (
+              <p className="flex items-center gap-2">
+                <Phone className="w-4 h-4 text-muted-foreground" />
+                <a href={`tel:${contact.phone}`} className="text-blue-600 hover:underline">{contact.phone}</a>
+              </p>
+            )}
+            {item.content && <p className="whitespace-pre-wrap text-muted-foreground">{item.content}</p>}
+          </div>
+        );
+      })()}
+
+      {item.type === "link" && (() => {
+        const url = (item.metadata as LinkMetadata | null)?.url || item.fileUrl || "";
+        return (
+          <div className="space-y-3">
+            {item.content && <p className="text-sm text-muted-foreground">{item.content}</p>}
+            <Button asChild className="w-full">
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Visit
+              </a>
+            </Button>
+          </div>
+        );
+      })()}
+    </div>
+  );
+}
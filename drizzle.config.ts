@@ -4,11 +4,22 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
 
+const isPglite = process.env.DATABASE_URL.startsWith("pglite:");
+
 export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
+  ...(isPglite
+    ? {
+        driver: "pglite",
+        dbCredentials: {
+          url: process.env.DATABASE_URL.replace(/^pglite:(\/\/)?/, ""),
+        },
+      }
+    : {
+        dbCredentials: {
+          url: process.env.DATABASE_URL,
+        },
+      }),
 });
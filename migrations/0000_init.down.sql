@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS "items";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "sessions";
+--> statement-breakpoint
+DROP TABLE IF EXISTS "users";
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS "items_object_key_unique";--> statement-breakpoint
+ALTER TABLE "items" DROP COLUMN IF EXISTS "object_key";
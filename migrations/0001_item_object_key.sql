@@ -0,0 +1,16 @@
+ALTER TABLE "items" ADD COLUMN "object_key" text;--> statement-breakpoint
+-- Backfill from the objectKey that uploads used to record in metadata.
+-- Rows whose metadata is not valid JSON are left without a key.
+DO $$
+DECLARE
+	row record;
+BEGIN
+	FOR row IN SELECT "id", "metadata" FROM "items" WHERE "type" = 'file' AND "metadata" IS NOT NULL LOOP
+		BEGIN
+			UPDATE "items" SET "object_key" = row."metadata"::jsonb ->> 'objectKey' WHERE "id" = row."id";
+		EXCEPTION WHEN invalid_text_representation THEN
+			NULL;
+		END;
+	END LOOP;
+END $$;--> statement-breakpoint
+CREATE UNIQUE INDEX "items_object_key_unique" ON "items" USING btree ("object_key");
@@ -0,0 +1 @@
+ALTER TABLE "items" ALTER COLUMN "metadata" SET DATA TYPE text USING "metadata"::text;
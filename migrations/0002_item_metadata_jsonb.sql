@@ -0,0 +1,9 @@
+-- Metadata that is not valid JSON cannot be kept, so it becomes NULL.
+CREATE OR REPLACE FUNCTION pg_temp.try_parse_jsonb(value text) RETURNS jsonb AS $$
+BEGIN
+	RETURN value::jsonb;
+EXCEPTION WHEN invalid_text_representation THEN
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+ALTER TABLE "items" ALTER COLUMN "metadata" SET DATA TYPE jsonb USING pg_temp.try_parse_jsonb("metadata");
@@ -0,0 +1,15 @@
+CREATE TABLE "uploads" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text,
+	"size" integer NOT NULL,
+	"offset" integer DEFAULT 0 NOT NULL,
+	"chunk_sizes" integer[] DEFAULT '{}' NOT NULL,
+	"tags" text[],
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "IDX_uploads_expires_at" ON "uploads" USING btree ("expires_at");
\ No newline at end of file
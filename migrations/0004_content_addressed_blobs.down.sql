@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS "IDX_items_object_key";--> statement-breakpoint
+CREATE UNIQUE INDEX "items_object_key_unique" ON "items" USING btree ("object_key");--> statement-breakpoint
+DROP TABLE IF EXISTS "blobs";
@@ -0,0 +1,17 @@
+CREATE TABLE "blobs" (
+	"object_key" text PRIMARY KEY NOT NULL,
+	"hash" varchar(64),
+	"size" integer NOT NULL,
+	"ref_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "blobs_hash_unique" UNIQUE("hash")
+);
+--> statement-breakpoint
+-- Track every existing upload as an unhashed blob with its current references
+INSERT INTO "blobs" ("object_key", "size", "ref_count")
+SELECT "object_key", COALESCE(MAX("file_size"), 0), COUNT(*)
+FROM "items"
+WHERE "object_key" IS NOT NULL
+GROUP BY "object_key";--> statement-breakpoint
+DROP INDEX "items_object_key_unique";--> statement-breakpoint
+CREATE INDEX "IDX_items_object_key" ON "items" USING btree ("object_key");
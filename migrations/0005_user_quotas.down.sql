@@ -0,0 +1,2 @@
+ALTER TABLE "users" DROP COLUMN IF EXISTS "item_quota";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN IF EXISTS "storage_quota";
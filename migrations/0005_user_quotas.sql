@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "storage_quota" bigint;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "item_quota" integer;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "share_links" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"item_id" integer NOT NULL,
+	"user_id" varchar NOT NULL,
+	"password_hash" text,
+	"expires_at" timestamp,
+	"max_downloads" integer,
+	"download_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_item_id_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "public"."items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_share_links_item_id" ON "share_links" USING btree ("item_id");
\ No newline at end of file
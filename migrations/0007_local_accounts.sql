@@ -0,0 +1,10 @@
+CREATE TABLE "local_accounts" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"email" varchar NOT NULL,
+	"password_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "local_accounts_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "local_accounts" ADD CONSTRAINT "local_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "api_tokens" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"token_hash" varchar(64) NOT NULL,
+	"token_prefix" varchar NOT NULL,
+	"scopes" text[] NOT NULL,
+	"last_used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_api_tokens_user_id" ON "api_tokens" USING btree ("user_id");
\ No newline at end of file
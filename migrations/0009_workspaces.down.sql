@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS "IDX_items_workspace_id";--> statement-breakpoint
+ALTER TABLE "items" DROP CONSTRAINT IF EXISTS "items_workspace_id_workspaces_id_fk";--> statement-breakpoint
+ALTER TABLE "items" DROP COLUMN IF EXISTS "workspace_id";--> statement-breakpoint
+ALTER TABLE "uploads" DROP COLUMN IF EXISTS "workspace_id";--> statement-breakpoint
+DROP TABLE IF EXISTS "workspace_members";--> statement-breakpoint
+DROP TABLE IF EXISTS "workspaces";
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"action" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"actor_id" varchar,
+	"workspace_id" integer,
+	"item_id" integer,
+	"item_title" text,
+	"changed_fields" text[],
+	"details" jsonb,
+	"ip_address" varchar,
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_user_id" ON "audit_events" USING btree ("user_id","id");--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_workspace_id" ON "audit_events" USING btree ("workspace_id","id");--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_item_id" ON "audit_events" USING btree ("item_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS "data_keys";--> statement-breakpoint
+DROP TABLE IF EXISTS "user_keys";
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "data_keys" (
+	"object_key" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"user_key_id" integer NOT NULL,
+	"wrapped_key" text NOT NULL,
+	"iv" varchar(24),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "data_keys_object_key_user_id_pk" PRIMARY KEY("object_key","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "user_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"wrapped_key" text NOT NULL,
+	"master_key_id" varchar(16) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "data_keys" ADD CONSTRAINT "data_keys_user_key_id_user_keys_id_fk" FOREIGN KEY ("user_key_id") REFERENCES "public"."user_keys"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_keys" ADD CONSTRAINT "user_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_data_keys_user_key_id" ON "data_keys" USING btree ("user_key_id");--> statement-breakpoint
+CREATE INDEX "IDX_user_keys_user_id" ON "user_keys" USING btree ("user_id");
\ No newline at end of file
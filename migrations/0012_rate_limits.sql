@@ -0,0 +1,7 @@
+CREATE TABLE "rate_limits" (
+	"key" varchar PRIMARY KEY NOT NULL,
+	"count" integer NOT NULL,
+	"reset_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "IDX_rate_limits_reset_at" ON "rate_limits" USING btree ("reset_at");
\ No newline at end of file
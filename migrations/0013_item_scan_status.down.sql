@@ -0,0 +1,2 @@
+ALTER TABLE "items" DROP COLUMN IF EXISTS "scan_result";--> statement-breakpoint
+ALTER TABLE "items" DROP COLUMN IF EXISTS "scan_status";
\ No newline at end of file
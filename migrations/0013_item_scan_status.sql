@@ -0,0 +1,2 @@
+ALTER TABLE "items" ADD COLUMN "scan_status" text;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "scan_result" text;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "user_sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"device" text NOT NULL,
+	"user_agent" text,
+	"ip_address" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_user_sessions_user_id" ON "user_sessions" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "workspaces" DROP COLUMN IF EXISTS "require_two_factor";--> statement-breakpoint
+ALTER TABLE "local_accounts" DROP COLUMN IF EXISTS "recovery_code_hashes";--> statement-breakpoint
+ALTER TABLE "local_accounts" DROP COLUMN IF EXISTS "totp_last_step";--> statement-breakpoint
+ALTER TABLE "local_accounts" DROP COLUMN IF EXISTS "totp_enabled_at";--> statement-breakpoint
+ALTER TABLE "local_accounts" DROP COLUMN IF EXISTS "totp_secret";
\ No newline at end of file
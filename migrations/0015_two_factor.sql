@@ -0,0 +1,5 @@
+ALTER TABLE "local_accounts" ADD COLUMN "totp_secret" text;--> statement-breakpoint
+ALTER TABLE "local_accounts" ADD COLUMN "totp_enabled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "local_accounts" ADD COLUMN "totp_last_step" bigint;--> statement-breakpoint
+ALTER TABLE "local_accounts" ADD COLUMN "recovery_code_hashes" jsonb;--> statement-breakpoint
+ALTER TABLE "workspaces" ADD COLUMN "require_two_factor" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS "IDX_items_search_vector";--> statement-breakpoint
+DROP TRIGGER IF EXISTS "items_search_vector_update" ON "items";--> statement-breakpoint
+DROP FUNCTION IF EXISTS "items_search_vector_update"();--> statement-breakpoint
+ALTER TABLE "items" DROP COLUMN IF EXISTS "search_vector";
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Weighted full-text index over items, kept current by a trigger. Postgres
+-- has four weights, so file names and metadata share the lowest. File names
+-- are split at punctuation, so "report" finds budget-report.pdf. Encrypted
+-- notes hold only ciphertext and are indexed by nothing.
+ALTER TABLE "items" ADD COLUMN "search_vector" tsvector;--> statement-breakpoint
+CREATE FUNCTION "items_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  IF NEW."metadata" -> 'encryption' IS NOT NULL THEN
+    NEW."search_vector" := ''::tsvector;
+  ELSE
+    NEW."search_vector" :=
+      setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(NEW."content", '')), 'C') ||
+      setweight(to_tsvector('english', regexp_replace(coalesce(NEW."file_name", ''), '[^[:alnum:]]+', ' ', 'g')), 'D') ||
+      setweight(jsonb_to_tsvector('english', coalesce(NEW."metadata", '{}'::jsonb), '["string"]'), 'D');
+  END IF;
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "items_search_vector_update"
+  BEFORE INSERT OR UPDATE OF "title", "tags", "content", "file_name", "metadata" ON "items"
+  FOR EACH ROW EXECUTE FUNCTION "items_search_vector_update"();--> statement-breakpoint
+UPDATE "items" SET "title" = "title";--> statement-breakpoint
+CREATE INDEX "IDX_items_search_vector" ON "items" USING gin ("search_vector");
\ No newline at end of file
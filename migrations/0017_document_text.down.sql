@@ -0,0 +1,22 @@
+DROP TRIGGER IF EXISTS "items_search_vector_update" ON "items";--> statement-breakpoint
+CREATE OR REPLACE FUNCTION "items_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  IF NEW."metadata" -> 'encryption' IS NOT NULL THEN
+    NEW."search_vector" := ''::tsvector;
+  ELSE
+    NEW."search_vector" :=
+      setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(NEW."content", '')), 'C') ||
+      setweight(to_tsvector('english', regexp_replace(coalesce(NEW."file_name", ''), '[^[:alnum:]]+', ' ', 'g')), 'D') ||
+      setweight(jsonb_to_tsvector('english', coalesce(NEW."metadata", '{}'::jsonb), '["string"]'), 'D');
+  END IF;
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "items_search_vector_update"
+  BEFORE INSERT OR UPDATE OF "title", "tags", "content", "file_name", "metadata" ON "items"
+  FOR EACH ROW EXECUTE FUNCTION "items_search_vector_update"();--> statement-breakpoint
+ALTER TABLE "items" DROP COLUMN IF EXISTS "extracted_text";--> statement-breakpoint
+UPDATE "items" SET "title" = "title";--> statement-breakpoint
+ALTER TABLE "items" DROP COLUMN IF EXISTS "extraction_status";
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Text extracted from uploaded documents, indexed with the weight of note
+-- content. Files already stored are queued for extraction.
+ALTER TABLE "items" ADD COLUMN "extraction_status" text;--> statement-breakpoint
+ALTER TABLE "items" ADD COLUMN "extracted_text" text;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION "items_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  IF NEW."metadata" -> 'encryption' IS NOT NULL THEN
+    NEW."search_vector" := ''::tsvector;
+  ELSE
+    NEW."search_vector" :=
+      setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW."tags", ' '), '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(NEW."content", '')), 'C') ||
+      setweight(to_tsvector('english', coalesce(NEW."extracted_text", '')), 'C') ||
+      setweight(to_tsvector('english', regexp_replace(coalesce(NEW."file_name", ''), '[^[:alnum:]]+', ' ', 'g')), 'D') ||
+      setweight(jsonb_to_tsvector('english', coalesce(NEW."metadata", '{}'::jsonb), '["string"]'), 'D');
+  END IF;
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+DROP TRIGGER "items_search_vector_update" ON "items";--> statement-breakpoint
+CREATE TRIGGER "items_search_vector_update"
+  BEFORE INSERT OR UPDATE OF "title", "tags", "content", "extracted_text", "file_name", "metadata" ON "items"
+  FOR EACH ROW EXECUTE FUNCTION "items_search_vector_update"();--> statement-breakpoint
+UPDATE "items" SET "extraction_status" = 'pending' WHERE "type" = 'file' AND "object_key" IS NOT NULL;
\ No newline at end of file
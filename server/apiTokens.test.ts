@@ -0,0 +1,106 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import type { ApiTokenScope } from "@shared/schema";
+import { storage } from "./storage-final";
+import { isAuthenticated } from "./auth";
+import { authenticateApiToken, requiredScope } from "./apiTokens";
+
+const userId = "token-owner";
+
+function request(method: string, originalUrl: string, token?: string): Request {
+  return {
+    method,
+    originalUrl,
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  } as unknown as Request;
+}
+
+async function createToken(scopes: ApiTokenScope[]): Promise<{ id: string; secret: string }> {
+  const secret = `isp_${crypto.randomBytes(32).toString("base64url")}`;
+  const token = await storage.createApiToken(userId, {
+    id: crypto.randomBytes(8).toString("hex"),
+    name: scopes.join(" "),
+    tokenHash: crypto.createHash("sha256").update(secret).digest("hex"),
+    tokenPrefix: secret.slice(0, 10),
+    scopes,
+  });
+  return { id: token.id, secret };
+}
+
+// Runs isAuthenticated and reports whether it let the request through
+async function authenticate(req: Request): Promise<{ passed: boolean; status?: number }> {
+  const result: { passed: boolean; status?: number } = { passed: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json() {
+      return res;
+    },
+  } as unknown as Response;
+  await isAuthenticated(req, res, () => {
+    result.passed = true;
+  });
+  return result;
+}
+
+describe("requiredScope", () => {
+  it("needs files for file contents and uploads", () => {
+    assert.equal(requiredScope(request("GET", "/api/files/blobs/ab/abc?action=download")), "files");
+    assert.equal(requiredScope(request("POST", "/api/uploads")), "files");
+    assert.equal(requiredScope(request("PUT", "/api/uploads/1/chunks/0")), "files");
+    assert.equal(requiredScope(request("POST", "/api/items/file")), "files");
+  });
+
+  it("needs read for other reads and write for everything else", () => {
+    assert.equal(requiredScope(request("GET", "/api/items?search=x")), "read");
+    assert.equal(requiredScope(request("HEAD", "/api/items")), "read");
+    assert.equal(requiredScope(request("POST", "/api/items/note")), "write");
+    assert.equal(requiredScope(request("DELETE", "/api/items/1")), "write");
+  });
+
+  it("does not take look-alike paths for file paths", () => {
+    assert.equal(requiredScope(request("GET", "/api/filesystem")), "read");
+  });
+});
+
+describe("bearer tokens", () => {
+  before(async () => {
+    await storage.upsertUser({ id: userId, email: "token-owner@example.com" });
+  });
+
+  it("act as their owner with their scopes", async () => {
+    const { id, secret } = await createToken(["read"]);
+    const user = await authenticateApiToken(secret);
+    assert.equal(user?.claims.sub, userId);
+    assert.equal(user?.tokenId, id);
+    assert.deepEqual(user?.scopes, ["read"]);
+  });
+
+  it("are unknown once revoked", async () => {
+    const { id, secret } = await createToken(["read"]);
+    await storage.deleteApiToken(userId, id);
+    assert.equal(await authenticateApiToken(secret), undefined);
+    assert.deepEqual(await authenticate(request("GET", "/api/items", secret)), { passed: false, status: 401 });
+  });
+
+  it("only pass requests within their scopes", async () => {
+    const { secret } = await createToken(["read"]);
+    assert.deepEqual(await authenticate(request("GET", "/api/items", secret)), { passed: true });
+    assert.deepEqual(await authenticate(request("POST", "/api/items/note", secret)), { passed: false, status: 403 });
+    assert.deepEqual(await authenticate(request("GET", "/api/files/blobs/ab/abc", secret)), { passed: false, status: 403 });
+  });
+
+  it("pass file requests with the files scope", async () => {
+    const { secret } = await createToken(["files"]);
+    assert.deepEqual(await authenticate(request("GET", "/api/files/blobs/ab/abc", secret)), { passed: true });
+    assert.deepEqual(await authenticate(request("GET", "/api/items", secret)), { passed: false, status: 403 });
+  });
+
+  it("reject unknown tokens", async () => {
+    assert.deepEqual(await authenticate(request("GET", "/api/items", "isp_unknown")), { passed: false, status: 401 });
+  });
+});
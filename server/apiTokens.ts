@@ -0,0 +1,125 @@
+import crypto from "crypto";
+import type { Express, Request } from "express";
+import { nanoid } from "nanoid";
+import { createApiTokenSchema, type ApiToken, type ApiTokenScope } from "@shared/schema";
+import { storage } from "./storage-final";
+import { createSessionUser, isAuthenticated, type SessionUser } from "./auth";
+import { recordAudit } from "./audit";
+
+// Personal access tokens for scripts and CLIs:
+//   GET    /api/tokens       the user's tokens, without their secrets
+//   POST   /api/tokens       create a token; the secret is only returned here
+//   DELETE /api/tokens/:id   revoke a token
+// Requests send "Authorization: Bearer <token>" and are handled by isAuthenticated.
+
+const TOKEN_PREFIX = "isp_";
+
+// lastUsedAt is only rewritten when it is older than this, to spare a write per request
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// The scope a request needs: file contents need "files", other reads
+// "read" and everything else "write"
+export function requiredScope(req: Request): ApiTokenScope {
+  const path = req.originalUrl.split("?")[0];
+  if (/^\/api\/(files|uploads)(\/|$)/.test(path) || path === "/api/items/file") {
+    return "files";
+  }
+  return req.method === "GET" || req.method === "HEAD" ? "read" : "write";
+}
+
+// The user a bearer token acts as, or undefined for unknown and revoked tokens
+export async function authenticateApiToken(token: string): Promise<SessionUser | undefined> {
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  if (!apiToken) return undefined;
+
+  const now = new Date();
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+    await storage.touchApiToken(apiToken.id, now);
+  }
+
+  return {
+    ...createSessionUser("token", { sub: apiToken.userId }),
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes,
+  };
+}
+
+// What the owner sees; never includes the hash
+function describeToken(token: ApiToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.tokenPrefix,
+    scopes: token.scopes,
+    lastUsedAt: token.lastUsedAt,
+    createdAt: token.createdAt,
+  };
+}
+
+export function registerApiTokenRoutes(app: Express) {
+  // Tokens are managed from a signed-in browser; a token cannot mint or revoke others
+  app.use("/api/tokens", isAuthenticated, (req: any, res, next) => {
+    if (req.user.tokenId) {
+      return res.status(403).json({ message: "API tokens cannot manage tokens" });
+    }
+    next();
+  });
+
+  app.get("/api/tokens", async (req: any, res) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user.claims.sub);
+      res.json(tokens.map(describeToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", async (req: any, res) => {
+    try {
+      const validation = createApiTokenSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid API token",
+          errors: validation.error.issues
+        });
+      }
+
+      const secret = TOKEN_PREFIX + crypto.randomBytes(32).toString("base64url");
+      const { name, scopes } = validation.data;
+      const token = await storage.createApiToken(req.user.claims.sub, {
+        id: nanoid(16),
+        name,
+        tokenHash: hashToken(secret),
+        tokenPrefix: secret.slice(0, TOKEN_PREFIX.length + 6),
+        scopes: Array.from(new Set(scopes)),
+      });
+
+      await recordAudit(req, {
+        action: "token.create",
+        details: { apiTokenId: token.id, name: token.name, scopes: token.scopes },
+      });
+      res.status(201).json({ ...describeToken(token), token: secret });
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", async (req: any, res) => {
+    try {
+      const success = await storage.deleteApiToken(req.user.claims.sub, req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await recordAudit(req, { action: "token.revoke", details: { apiTokenId: req.params.id } });
+      res.json({ success: true, message: "API token revoked" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import type { Express, Request } from "express";
+import { activityQuerySchema, type AuditAction, type Item } from "@shared/schema";
+import { storage } from "./storage-final";
+import { isAuthenticated } from "./auth";
+import { requireWorkspaceRole, WorkspaceAccessError } from "./workspaces";
+
+// Audit log of item and account activity:
+//   GET /api/activity   events filtered by action, itemId, workspace, from, to;
+//                       page back with ?before=<id of the oldest event seen>
+
+export interface AuditInput {
+  action: AuditAction;
+  // Whose log the event goes in; defaults to the signed-in user
+  userId?: string;
+  // Who did it; defaults to the signed-in user, null for share link visitors
+  actorId?: string | null;
+  item?: Pick<Item, "id" | "title" | "workspaceId">;
+  // Defaults to the item's workspace
+  workspaceId?: number | null;
+  changedFields?: string[];
+  details?: Record<string, unknown>;
+}
+
+// Records an event for this request. A failure is logged rather than thrown,
+// so a problem with the log never fails the action being logged.
+export async function recordAudit(req: Request, input: AuditInput): Promise<void> {
+  const user = req.user as { claims?: { sub?: string }; tokenId?: string } | undefined;
+  const signedIn = user?.claims?.sub;
+  const userId = input.userId ?? signedIn;
+  if (!userId) return;
+
+  try {
+    await storage.recordAuditEvent({
+      action: input.action,
+      userId,
+      actorId: input.actorId !== undefined ? input.actorId : signedIn ?? null,
+      workspaceId: input.workspaceId ?? input.item?.workspaceId ?? null,
+      itemId: input.item?.id ?? null,
+      itemTitle: input.item?.title ?? null,
+      changedFields: input.changedFields ?? null,
+      // Requests made with an API token say which one
+      details: user?.tokenId ? { ...input.details, tokenId: user.tokenId } : input.details ?? null,
+      ipAddress: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+    });
+  } catch (error) {
+    console.error("Error recording audit event:", error);
+  }
+}
+
+export function registerAuditRoutes(app: Express) {
+  app.get("/api/activity", isAuthenticated, async (req: any, res) => {
+    try {
+      const validation = activityQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid activity filter",
+          errors: validation.error.issues
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      if (validation.data.workspace) {
+        await requireWorkspaceRole(userId, validation.data.workspace, "viewer");
+      }
+
+      const events = await storage.getAuditEvents(userId, validation.data);
+      // Where a request came from is only shown in the user's own log, not
+      // to other members of a workspace
+      res.json(events.map((event) => (
+        event.userId === userId ? event : { ...event, ipAddress: null, userAgent: null }
+      )));
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching activity:", error);
+      res.status(500).json({ message: "Failed to fetch activity" });
+    }
+  });
+}
@@ -0,0 +1,293 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { storage, usesMemoryStorage } from "./storage-final";
+import { pool } from "./db";
+import { createReplitProvider } from "./replitAuth";
+import { createGenericOidcProvider } from "./oidcAuth";
+import { createLocalProvider } from "./localAuth";
+import { authenticateApiToken, requiredScope } from "./apiTokens";
+import { recordAudit } from "./audit";
+import { rateLimit } from "./rateLimit";
+import { forgetSession, recordSession, trackSession } from "./sessions";
+import type { ApiTokenScope } from "@shared/schema";
+
+// Identity claims in OIDC naming. Replit sends first_name/last_name, other
+// issuers the standard given_name/family_name; upsertUser accepts both.
+export interface UserClaims {
+  sub: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+  given_name?: string;
+  family_name?: string;
+  profile_image_url?: string;
+  picture?: string;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+// What passport keeps in the session. Routes read the user id from claims.sub.
+export interface SessionUser {
+  provider: string;
+  claims: UserClaims;
+  access_token?: string;
+  refresh_token?: string;
+  expires_at: number;
+  // Set for requests authenticated with an API token
+  tokenId?: string;
+  scopes?: ApiTokenScope[];
+  // Set while a password sign-in waits for its second factor, see twoFactor.ts
+  twoFactorPending?: boolean;
+}
+
+export interface AuthProvider {
+  id: string;
+  label: string;
+  // Redirect providers start at /api/login/<id>; password providers post a form
+  kind: "redirect" | "password";
+  setup(app: Express): Promise<void>;
+  // Renew an expired session user in place; false if it cannot be renewed
+  refresh?(user: SessionUser): Promise<boolean>;
+  // Where to send the browser after logout, e.g. the issuer's end-session page
+  logoutUrl?(req: Request, user: SessionUser): string | undefined;
+}
+
+export const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Also signs share links, see shareLinks.ts
+export const sessionSecret = usesMemoryStorage
+  ? process.env.SESSION_SECRET ?? "infospace-demo"
+  : process.env.SESSION_SECRET!;
+
+const providers = new Map<string, AuthProvider>();
+
+let sessionStore: session.Store | undefined;
+
+function createSessionStore(): session.Store {
+  if (usesMemoryStorage) {
+    const MemoryStore = createMemoryStore(session);
+    return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  const pgStore = connectPg(session);
+  // Share the app's connection so sessions work with every database driver
+  return new pgStore({
+    pool: pool as any,
+    createTableIfMissing: false,
+    ttl: sessionTtl,
+    tableName: "sessions",
+  });
+}
+
+// The store behind getSession(), also used to list and end sessions, see sessions.ts
+export function getSessionStore(): session.Store {
+  sessionStore ??= createSessionStore();
+  return sessionStore;
+}
+
+export function getSession() {
+  return session({
+    secret: sessionSecret,
+    store: getSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Demo mode is usually served over plain http on localhost
+      secure: !usesMemoryStorage,
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+// Every provider records its users through here
+export async function upsertUser(claims: UserClaims) {
+  await storage.upsertUser({
+    id: claims.sub,
+    email: claims.email,
+    firstName: claims.first_name ?? claims.given_name,
+    lastName: claims.last_name ?? claims.family_name,
+    profileImageUrl: claims.profile_image_url ?? claims.picture,
+  });
+}
+
+// A session user for providers without tokens of their own, valid for one session lifetime
+export function createSessionUser(provider: string, claims: UserClaims): SessionUser {
+  return {
+    provider,
+    claims,
+    expires_at: Math.floor((Date.now() + sessionTtl) / 1000),
+  };
+}
+
+export async function signIn(req: Request, user: SessionUser): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    req.login(user, (err) => (err ? reject(err) : resolve()));
+  });
+  await recordSession(req);
+  await recordAudit(req, { action: "auth.login", details: { provider: user.provider } });
+}
+
+// Demo mode signs everyone in as a single local user, without any OIDC round trip
+const demoClaims: UserClaims = {
+  sub: "demo-user",
+  email: "demo@infospace.local",
+  first_name: "Demo",
+  last_name: "User",
+};
+
+function createDemoProvider(): AuthProvider {
+  if (!usesMemoryStorage) {
+    throw new Error("The demo auth provider is only available with STORAGE=memory");
+  }
+
+  return {
+    id: "demo",
+    label: "Demo account",
+    kind: "redirect",
+    async setup(app) {
+      app.get("/api/login/demo", async (req, res, next) => {
+        try {
+          await upsertUser(demoClaims);
+          await signIn(req, createSessionUser("demo", demoClaims));
+          res.redirect("/");
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+  };
+}
+
+function createProvider(id: string): AuthProvider {
+  switch (id) {
+    case "replit":
+      return createReplitProvider();
+    case "oidc":
+      return createGenericOidcProvider();
+    case "local":
+      return createLocalProvider();
+    case "demo":
+      return createDemoProvider();
+    default:
+      throw new Error(`Unknown auth provider: ${id}`);
+  }
+}
+
+// AUTH_PROVIDERS is a comma separated list of "replit", "oidc", "local" and
+// "demo". Without it, demo mode uses the demo account and Replit deployments
+// keep signing in with Replit.
+function configuredProviders(): string[] {
+  const configured = process.env.AUTH_PROVIDERS
+    ?? (usesMemoryStorage ? "demo" : process.env.REPLIT_DOMAINS ? "replit" : undefined);
+  if (!configured) {
+    throw new Error("AUTH_PROVIDERS must be set, e.g. AUTH_PROVIDERS=local or AUTH_PROVIDERS=oidc");
+  }
+  return configured.split(",").map((id) => id.trim()).filter(Boolean);
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(trackSession);
+
+  // Every provider's sign-in, callback and password routes live under these
+  app.use(["/api/login", "/api/callback", "/api/auth/local"], rateLimit("login"));
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  for (const id of configuredProviders()) {
+    const provider = createProvider(id);
+    await provider.setup(app);
+    providers.set(provider.id, provider);
+  }
+
+  // Lets the login page offer every configured way to sign in
+  app.get("/api/auth/providers", (req, res) => {
+    res.json(Array.from(providers.values()).map(({ id, label, kind }) => ({ id, label, kind })));
+  });
+
+  // A single redirect provider needs no login page of its own
+  app.get("/api/login", (req, res) => {
+    const [only, ...others] = Array.from(providers.values());
+    if (only?.kind === "redirect" && others.length === 0) {
+      return res.redirect(`/api/login/${only.id}`);
+    }
+    res.redirect("/login");
+  });
+
+  app.get("/api/logout", (req, res, next) => {
+    const user = req.user as SessionUser | undefined;
+    const provider = user && providerFor(user);
+    const redirectTo = (user && provider?.logoutUrl?.(req, user)) ?? "/";
+    forgetSession(req.sessionID).then(() => {
+      req.logout((err) => {
+        if (err) return next(err);
+        res.redirect(redirectTo);
+      });
+    }, next);
+  });
+}
+
+// Sessions created before providers were pluggable are all Replit ones
+function providerFor(user: SessionUser): AuthProvider | undefined {
+  return providers.get(user.provider ?? "replit");
+}
+
+// Bearer tokens stand in for a session on this one request
+const authenticateBearer: RequestHandler = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization!.replace(/^Bearer\s+/i, "");
+    const user = await authenticateApiToken(token);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid API token" });
+    }
+
+    const scope = requiredScope(req);
+    if (!user.scopes?.includes(scope)) {
+      return res.status(403).json({ message: `This API token lacks the "${scope}" scope` });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error("Error checking API token:", error);
+    res.status(500).json({ message: "Failed to check API token" });
+  }
+};
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  if (/^Bearer\s/i.test(req.headers.authorization ?? "")) {
+    return authenticateBearer(req, res, next);
+  }
+
+  const user = req.user as SessionUser | undefined;
+
+  if (!req.isAuthenticated() || !user?.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (user.twoFactorPending) {
+    return res.status(401).json({ message: "Two-factor authentication required", twoFactorRequired: true });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  try {
+    const provider = providerFor(user);
+    if (provider?.refresh && (await provider.refresh(user))) {
+      return next();
+    }
+  } catch (error) {
+    // Fall through to signing in again
+  }
+  return res.redirect("/api/login");
+};
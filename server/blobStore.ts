@@ -0,0 +1,345 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { Client } from "@replit/object-storage";
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+
+export interface BlobInfo {
+  key: string;
+  // Unknown where the store cannot tell without reading the object (Replit)
+  size?: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface BlobStore {
+  put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void>;
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  head(key: string): Promise<BlobInfo | undefined>;
+  list(prefix?: string): Promise<BlobInfo[]>;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = "BlobNotFoundError";
+  }
+}
+
+// Yield only the bytes of `source` that fall inside `range`
+async function* sliceBytes(source: AsyncIterable<Buffer>, range: ByteRange) {
+  let offset = 0;
+  for await (const chunk of source) {
+    const chunkStart = offset;
+    offset += chunk.length;
+    if (offset <= range.start) continue;
+    yield chunk.subarray(Math.max(range.start - chunkStart, 0), range.end + 1 - chunkStart);
+    if (offset > range.end) break;
+  }
+}
+
+// Stores blobs as plain files under a root directory, keyed by relative path.
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial blob
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      if (Buffer.isBuffer(body)) {
+        await fs.promises.writeFile(tempPath, body);
+      } else {
+        await pipeline(body, fs.createWriteStream(tempPath));
+      }
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolveKey(key);
+    if (!(await this.head(key))) {
+      throw new BlobNotFoundError(key);
+    }
+    return fs.createReadStream(filePath, range);
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.rm(filePath, { force: true });
+
+    // Prune directories the deletion left empty, but never the root itself
+    let dir = path.dirname(filePath);
+    while (dir.startsWith(this.root + path.sep)) {
+      try {
+        await fs.promises.rmdir(dir);
+      } catch {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  async head(key: string): Promise<BlobInfo | undefined> {
+    try {
+      const stat = await fs.promises.stat(this.resolveKey(key));
+      if (!stat.isFile()) return undefined;
+      return { key, size: stat.size, lastModified: stat.mtime };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async list(prefix = ""): Promise<BlobInfo[]> {
+    const results: BlobInfo[] = [];
+
+    const walk = async (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === "ENOENT") return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile() && !entry.name.endsWith(".tmp")) {
+          const key = path.relative(this.root, fullPath).split(path.sep).join("/");
+          if (key.startsWith(prefix)) {
+            const stat = await fs.promises.stat(fullPath);
+            results.push({ key, size: stat.size, lastModified: stat.mtime });
+          }
+        }
+      }
+    };
+
+    await walk(this.root);
+    return results.sort((a, b) => a.key.localeCompare(b.key));
+  }
+}
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+// Works against AWS S3 and any S3-compatible service (MinIO, R2, B2, ...).
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region ?? "us-east-1",
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutOptions = {}): Promise<void> {
+    // lib-storage switches to multipart uploads for large or unsized streams
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+      },
+    });
+    await upload.done();
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }),
+      );
+      return response.Body as Readable;
+    } catch (error: any) {
+      if (error.name === "NoSuchKey") throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async head(key: string): Promise<BlobInfo | undefined> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType,
+        lastModified: response.LastModified,
+      };
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix?: string): Promise<BlobInfo[]> {
+    const results: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (!object.Key) continue;
+        results.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified,
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return results;
+  }
+}
+
+// Replit Object Storage, kept so existing Replit deployments keep working.
+export class ReplitBlobStore implements BlobStore {
+  private client: Client;
+
+  constructor(bucketId?: string) {
+    this.client = new Client(bucketId ? { bucketId } : undefined);
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    if (Buffer.isBuffer(body)) {
+      const result = await this.client.uploadFromBytes(key, body);
+      if (!result.ok) throw new Error(`Object Storage error: ${result.error.message}`);
+    } else {
+      await this.client.uploadFromStream(key, body);
+    }
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    const exists = await this.client.exists(key);
+    if (!exists.ok) throw new Error(`Object Storage error: ${exists.error.message}`);
+    if (!exists.value) throw new BlobNotFoundError(key);
+
+    // No ranged downloads in the Replit client; skip to the range ourselves
+    const stream = this.client.downloadAsStream(key);
+    return range ? Readable.from(sliceBytes(stream, range)) : stream;
+  }
+
+  async delete(key: string): Promise<void> {
+    const result = await this.client.delete(key, { ignoreNotFound: true });
+    if (!result.ok) throw new Error(`Object Storage error: ${result.error.message}`);
+  }
+
+  async head(key: string): Promise<BlobInfo | undefined> {
+    const exists = await this.client.exists(key);
+    if (!exists.ok) throw new Error(`Object Storage error: ${exists.error.message}`);
+    // The Replit client has no metadata call; callers know sizes from the blobs table
+    return exists.value ? { key } : undefined;
+  }
+
+  async list(prefix?: string): Promise<BlobInfo[]> {
+    const result = await this.client.list(prefix ? { prefix } : undefined);
+    if (!result.ok) throw new Error(`Object Storage error: ${result.error.message}`);
+    return result.value.map((object) => ({ key: object.name }));
+  }
+}
+
+// Select the driver from BLOB_STORE ("local", "s3" or "replit"). Without it,
+// Replit deployments keep using Replit Object Storage and everything else
+// falls back to the local filesystem.
+export function createBlobStore(): BlobStore {
+  const driver = process.env.BLOB_STORE ?? (process.env.REPL_ID ? "replit" : "local");
+
+  switch (driver) {
+    case "local":
+      return new LocalBlobStore(process.env.BLOB_STORE_DIR ?? "./uploads");
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when BLOB_STORE=s3");
+      }
+      return new S3BlobStore({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+    case "replit":
+      return new ReplitBlobStore(process.env.REPLIT_BUCKET_ID);
+    default:
+      throw new Error(`Unknown BLOB_STORE driver: ${driver}`);
+  }
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,90 @@
+import net from "net";
+
+// Minimal client for clamd's INSTREAM command: the file is sent as
+// length-prefixed chunks ending with an empty one, and clamd replies with
+// "stream: OK", "stream: <signature> FOUND" or "<reason> ERROR".
+// See https://docs.clamav.net/manual/Usage/Scanning.html#clamd
+
+// Size of the chunks sent to clamd; the whole file may be much larger
+const CHUNK_SIZE = 64 * 1024;
+
+export interface ClamdOptions {
+  // Unix socket path, or host and port for TCP
+  socket?: string;
+  host?: string;
+  port: number;
+  timeoutMs: number;
+}
+
+export function clamdOptionsFromEnv(): ClamdOptions | undefined {
+  const socket = process.env.CLAMD_SOCKET;
+  const host = process.env.CLAMD_HOST;
+  if (!socket && !host) return undefined;
+  return {
+    socket,
+    host,
+    port: parseInt(process.env.CLAMD_PORT ?? "") || 3310,
+    timeoutMs: parseInt(process.env.CLAMD_TIMEOUT ?? "") || 60_000,
+  };
+}
+
+function write(socket: net.Socket, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.write(data, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+function lengthPrefix(length: number): Buffer {
+  const prefix = Buffer.alloc(4);
+  prefix.writeUInt32BE(length);
+  return prefix;
+}
+
+// The signature clamd found, or null if the file is clean. Throws if clamd
+// is unreachable or could not scan the file, e.g. because it is too large.
+export async function scanWithClamd(options: ClamdOptions, source: AsyncIterable<Buffer>): Promise<string | null> {
+  const socket = options.socket
+    ? net.createConnection({ path: options.socket })
+    : net.createConnection({ host: options.host, port: options.port });
+  socket.setTimeout(options.timeoutMs, () => socket.destroy(new Error("clamd timed out")));
+
+  const reply = new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    socket.on("data", (chunk: Buffer) => chunks.push(chunk));
+    socket.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    socket.on("error", reject);
+  });
+  // Awaited below; this keeps an early failure from going unhandled meanwhile
+  reply.catch(() => {});
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once("connect", resolve);
+      socket.once("error", reject);
+    });
+
+    try {
+      await write(socket, Buffer.from("zINSTREAM\0"));
+      for await (const chunk of source) {
+        for (let offset = 0; offset < chunk.length; offset += CHUNK_SIZE) {
+          const part = chunk.subarray(offset, offset + CHUNK_SIZE);
+          await write(socket, Buffer.concat([lengthPrefix(part.length), part]));
+        }
+      }
+      await write(socket, lengthPrefix(0));
+    } catch (error) {
+      // clamd hangs up mid-stream when the file exceeds its limits, after
+      // saying why; prefer that reason over the write error
+      const response = await reply.catch(() => undefined);
+      if (!response) throw error;
+    }
+
+    const response = (await reply).replace(/\0/g, "").trim();
+    if (response === "stream: OK") return null;
+    const found = response.match(/^stream: (.+) FOUND$/);
+    if (found) return found[1];
+    throw new Error(`clamd could not scan the file: ${response || "no reply"}`);
+  } finally {
+    socket.destroy();
+  }
+}
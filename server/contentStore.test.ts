@@ -0,0 +1,99 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+
+// The blob store is set up when its module loads
+const blobDir = fs.mkdtempSync(path.join(os.tmpdir(), "content-store-test-"));
+process.env.BLOB_STORE = "local";
+process.env.BLOB_STORE_DIR = blobDir;
+delete process.env.FILE_ENCRYPTION_KEY;
+
+const { contentKey, hashBuffer, hashStream, releaseContent, storeContent } = await import("./contentStore");
+const { blobStore } = await import("./blobStore");
+const { storage } = await import("./storage-final");
+
+const userId = "dedup-user";
+
+before(async () => {
+  await storage.upsertUser({ id: userId, email: "dedup@example.com" });
+});
+
+after(() => fs.rmSync(blobDir, { recursive: true, force: true }));
+
+describe("content hashing", () => {
+  it("hashes streams like buffers", async () => {
+    const bytes = Buffer.from("the same bytes, however they arrive");
+    const digest = hashBuffer(bytes);
+    assert.deepEqual(await hashStream(Readable.from([bytes.subarray(0, 7), bytes.subarray(7)])), digest);
+    assert.equal(contentKey(digest.hash), `blobs/${digest.hash.slice(0, 2)}/${digest.hash}`);
+  });
+});
+
+describe("storeContent", () => {
+  it("writes identical content once and keeps it until its last reference goes", async () => {
+    const bytes = Buffer.from("stored once");
+    let writes = 0;
+    const body = () => {
+      writes++;
+      return bytes;
+    };
+
+    const first = await storeContent({ ...hashBuffer(bytes), userId, body });
+    const second = await storeContent({ ...hashBuffer(bytes), userId, body });
+    assert.equal(first, second);
+    assert.equal(writes, 1);
+
+    await releaseContent(first);
+    assert.ok(await blobStore.head(first));
+    await releaseContent(first);
+    assert.equal(await blobStore.head(first), undefined);
+  });
+
+  it("stores different content under different keys", async () => {
+    const a = await storeContent({ ...hashBuffer(Buffer.from("a")), userId, body: () => Buffer.from("a") });
+    const b = await storeContent({ ...hashBuffer(Buffer.from("b")), userId, body: () => Buffer.from("b") });
+    assert.notEqual(a, b);
+  });
+
+  it("gives the reference back when writing fails", async () => {
+    const bytes = Buffer.from("unwritable");
+    await assert.rejects(storeContent({
+      ...hashBuffer(bytes),
+      userId,
+      body: () => {
+        throw new Error("disk full");
+      },
+    }), /disk full/);
+    // The next upload is the first again and writes the object
+    let wrote = false;
+    const objectKey = await storeContent({
+      ...hashBuffer(bytes),
+      userId,
+      body: () => {
+        wrote = true;
+        return bytes;
+      },
+    });
+    assert.ok(wrote);
+    assert.ok(await blobStore.head(objectKey));
+  });
+});
+
+describe("getItemByObjectKey", () => {
+  it("only finds duplicates in the space asked about", async () => {
+    const workspace = await storage.createWorkspace(userId, "Team");
+    const objectKey = contentKey("ab".repeat(32));
+    const base = { title: "report.pdf", type: "file", objectKey, tags: [] };
+    const personal = await storage.createItem(userId, { ...base, workspaceId: null });
+
+    assert.equal((await storage.getItemByObjectKey(userId, objectKey, null))?.id, personal.id);
+    assert.equal(await storage.getItemByObjectKey(userId, objectKey, workspace.id), undefined);
+
+    const shared = await storage.createItem(userId, { ...base, workspaceId: workspace.id });
+    assert.equal((await storage.getItemByObjectKey(userId, objectKey, workspace.id))?.id, shared.id);
+    assert.equal(await storage.getItemByObjectKey("someone-else", objectKey, null), undefined);
+  });
+});
@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import { pipeline, type Readable } from "stream";
+import { storage } from "./storage-final";
+import { blobStore, type ByteRange } from "./blobStore";
+import {
+  ctrCipher,
+  getContentKey,
+  type ContentKey,
+  grantContentKey,
+  isFileEncryptionEnabled,
+  newContentKey,
+} from "./fileEncryption";
+
+// Uploaded files are stored once per distinct content, under a key derived
+// from their SHA-256 hash. The blobs table counts the items sharing each
+// object, so an object is only deleted with its last item. Objects are
+// encrypted at rest when FILE_ENCRYPTION_KEY is set, see fileEncryption.ts.
+
+export interface ContentDigest {
+  hash: string;
+  size: number;
+}
+
+interface StoreContentOptions extends ContentDigest {
+  // The uploader, whose key wraps the object's data key
+  userId: string;
+  contentType?: string;
+  // Called only if the bytes actually have to be written
+  body: () => Buffer | Readable;
+}
+
+// Fanned out by hash prefix so no single directory grows too large
+export function contentKey(hash: string): string {
+  return `blobs/${hash.slice(0, 2)}/${hash}`;
+}
+
+export function hashBuffer(buffer: Buffer): ContentDigest {
+  return {
+    hash: crypto.createHash("sha256").update(buffer).digest("hex"),
+    size: buffer.length,
+  };
+}
+
+export async function hashStream(source: AsyncIterable<Buffer>): Promise<ContentDigest> {
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+  for await (const chunk of source) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+  return { hash: hash.digest("hex"), size };
+}
+
+function encrypt(bytes: Buffer | Readable, key: Buffer, iv: Buffer): Buffer | Readable {
+  const cipher = ctrCipher(key, iv);
+  if (Buffer.isBuffer(bytes)) {
+    return Buffer.concat([cipher.update(bytes), cipher.final()]);
+  }
+  return pipeline(bytes, cipher, () => {});
+}
+
+// Thrown when an identical upload is still writing the object; the caller
+// can retry once it has finished
+export class ContentBusyError extends Error {
+  constructor() {
+    super("An identical file is still being stored; try again shortly");
+    this.name = "ContentBusyError";
+  }
+}
+
+// How long an upload waits for an identical one that is writing the object
+const WRITE_WAIT_MS = 30 * 1000;
+const WRITE_POLL_MS = 250;
+
+// Wait for the upload that created a blob to write its object. Returns the
+// object's data key, or undefined if it is stored unencrypted.
+async function waitForContent(objectKey: string): Promise<ContentKey | undefined> {
+  const deadline = Date.now() + WRITE_WAIT_MS;
+  while (Date.now() < deadline) {
+    if (await blobStore.head(objectKey)) {
+      return getContentKey(objectKey);
+    }
+    await new Promise((resolve) => setTimeout(resolve, WRITE_POLL_MS));
+  }
+
+  // The first upload never finished, e.g. the server stopped while writing.
+  // Rewriting under its data key produces the same ciphertext; without one
+  // the object is only written if it would be stored unencrypted anyway.
+  const key = await getContentKey(objectKey);
+  if (!key && isFileEncryptionEnabled()) {
+    throw new ContentBusyError();
+  }
+  return key;
+}
+
+// Take a reference to the object holding this content, writing it first if
+// no earlier upload did. Returns the object key for the new item.
+export async function storeContent(options: StoreContentOptions): Promise<string> {
+  const { hash, size, userId, contentType, body } = options;
+  const objectKey = contentKey(hash);
+  const write = (key: ContentKey | undefined) =>
+    blobStore.put(objectKey, key?.iv ? encrypt(body(), key.key, key.iv) : body(), { contentType });
+
+  const { created } = await storage.acquireBlob({ objectKey, hash, size });
+  try {
+    if (created) {
+      // Only the upload that created the blob picks its data key, and the
+      // key is saved before the object is written
+      const key = isFileEncryptionEnabled() ? newContentKey() : undefined;
+      if (key) {
+        await grantContentKey(objectKey, userId, key);
+      }
+      await write(key);
+    } else {
+      const key = await waitForContent(objectKey);
+      if (key) {
+        await grantContentKey(objectKey, userId, key);
+      }
+      if (!(await blobStore.head(objectKey))) {
+        await write(key);
+      }
+    }
+  } catch (error) {
+    await releaseContent(objectKey).catch(() => {});
+    throw error;
+  }
+
+  return objectKey;
+}
+
+// Drop a reference taken by storeContent, e.g. when creating the item failed
+export async function releaseContent(objectKey: string): Promise<void> {
+  if (await storage.releaseBlob(objectKey)) {
+    await blobStore.delete(objectKey);
+  }
+}
+
+// Read an object, or a range of it, decrypting it if it is stored encrypted.
+// Throws BlobNotFoundError if the object is missing.
+export async function openContent(objectKey: string, range?: ByteRange): Promise<Readable> {
+  const key = await getContentKey(objectKey);
+  const stream = await blobStore.getStream(objectKey, range);
+  if (!key?.iv) return stream;
+  return pipeline(stream, ctrCipher(key.key, key.iv, range?.start ?? 0), () => {});
+}
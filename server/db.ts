@@ -1,70 +1,71 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from "pg";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// In memory storage mode (STORAGE=memory) nothing touches the pool, so a
+// database URL is optional; the pool only connects on first query.
+if (!process.env.DATABASE_URL && process.env.STORAGE !== "memory") {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export type DatabaseDriver = "neon" | "pg" | "pglite";
 
-// Initialize database tables if they don't exist
-export async function initializeDatabase() {
-  try {
-    // Sessions table for authentication
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS sessions (
-        sid VARCHAR PRIMARY KEY,
-        sess JSONB NOT NULL,
-        expire TIMESTAMP NOT NULL
-      )
-    `);
+// The subset of a pg Pool that raw SQL callers (e.g. the session store) rely on.
+// PGlite exposes the same shape, so every driver can hand one out.
+export interface SqlPool {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+}
 
-    // Create index on expire column
-    await pool.query(`
-      CREATE INDEX IF NOT EXISTS IDX_session_expire ON sessions (expire)
-    `);
+// DATABASE_DRIVER wins when set. Otherwise pglite:// URLs run an embedded
+// PGlite instance, Neon hosts use the serverless driver and anything else is
+// treated as an ordinary Postgres server.
+export function resolveDatabaseDriver(url = process.env.DATABASE_URL): DatabaseDriver {
+  const configured = process.env.DATABASE_DRIVER;
+  if (configured) {
+    if (configured !== "neon" && configured !== "pg" && configured !== "pglite") {
+      throw new Error(`Unknown DATABASE_DRIVER: ${configured}`);
+    }
+    return configured;
+  }
 
-    // Users table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS users (
-        id VARCHAR PRIMARY KEY,
-        email VARCHAR UNIQUE,
-        first_name VARCHAR,
-        last_name VARCHAR,
-        profile_image_url VARCHAR,
-        created_at TIMESTAMP DEFAULT NOW(),
-        updated_at TIMESTAMP DEFAULT NOW()
-      )
-    `);
+  if (url?.startsWith("pglite:")) return "pglite";
+  if (url && /\.neon\.tech(:\d+)?\//.test(url)) return "neon";
+  return "pg";
+}
 
-    // Items table with user_id foreign key
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS items (
-        id SERIAL PRIMARY KEY,
-        user_id VARCHAR NOT NULL,
-        title TEXT NOT NULL,
-        content TEXT,
-        type TEXT NOT NULL,
-        file_url TEXT,
-        file_name TEXT,
-        file_size INTEGER,
-        mime_type TEXT,
-        tags TEXT[] DEFAULT '{}',
-        metadata TEXT,
-        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
-        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
-      )
-    `);
+// pglite://memory (or a bare pglite://) is in-memory, pglite://<path> persists to disk
+function pgliteDataDir(url: string | undefined): string | undefined {
+  const location = url?.replace(/^pglite:(\/\/)?/, "") ?? "";
+  return location === "" || location === "memory" ? undefined : location;
+}
 
-    console.log('Database initialized successfully');
-  } catch (error) {
-    console.error('Failed to initialize database:', error);
+function connect(): { pool: SqlPool; db: PgDatabase<PgQueryResultHKT, typeof schema> } {
+  const url = process.env.DATABASE_URL;
+
+  switch (resolveDatabaseDriver(url)) {
+    case "neon": {
+      const pool = new NeonPool({ connectionString: url });
+      return { pool, db: drizzleNeon({ client: pool, schema }) };
+    }
+    case "pglite": {
+      const client = new PGlite(pgliteDataDir(url));
+      return { pool: client, db: drizzlePglite({ client, schema }) };
+    }
+    case "pg": {
+      const pool = new pg.Pool({ connectionString: url });
+      return { pool, db: drizzleNodePg({ client: pool, schema }) };
+    }
   }
-}
\ No newline at end of file
+}
+
+export const { pool, db } = connect();
@@ -0,0 +1,118 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import ExcelJS from "exceljs";
+import type { InsertItem } from "@shared/schema";
+
+// The blob store and the limits are set up when their modules load
+const blobDir = fs.mkdtempSync(path.join(os.tmpdir(), "extraction-test-"));
+process.env.BLOB_STORE = "local";
+process.env.BLOB_STORE_DIR = blobDir;
+process.env.EXTRACTION_MAX_UNPACKED_SIZE = String(1024 * 1024);
+
+const { extractFile } = await import("./extraction");
+const { hashBuffer, storeContent } = await import("./contentStore");
+const { parseSearch } = await import("./search");
+const { storage } = await import("./storage-final");
+
+const userId = "extraction-user";
+
+async function fileItem(fileName: string, bytes: Buffer, changes: Partial<InsertItem> = {}) {
+  const objectKey = await storeContent({ ...hashBuffer(bytes), userId, body: () => bytes });
+  const item = await storage.createItem(userId, {
+    title: fileName,
+    type: "file",
+    fileName,
+    fileSize: bytes.length,
+    objectKey,
+    scanStatus: "clean",
+    extractionStatus: "pending",
+    tags: [],
+    ...changes,
+  });
+  await extractFile(item);
+  return (await storage.getItem(userId, item.id))!;
+}
+
+async function findIds(search: string): Promise<number[]> {
+  return (await storage.getItems(userId, parseSearch(search))).map((item) => item.id);
+}
+
+async function workbook(rows: string[][]): Promise<Buffer> {
+  const book = new ExcelJS.Workbook();
+  book.addWorksheet("Budget").addRows(rows);
+  return Buffer.from(await book.xlsx.writeBuffer());
+}
+
+// Claims every entry unpacks to a single byte, as a zip bomb can
+function understateSizes(archive: Buffer): Buffer {
+  const copy = Buffer.from(archive);
+  for (let offset = 0; offset + 30 <= copy.length; offset++) {
+    const signature = copy.readUInt32LE(offset);
+    if (signature === 0x02014b50) copy.writeUInt32LE(1, offset + 24);
+    if (signature === 0x04034b50) copy.writeUInt32LE(1, offset + 22);
+  }
+  return copy;
+}
+
+before(async () => {
+  await storage.upsertUser({ id: userId, email: "extraction@example.com" });
+});
+
+after(() => fs.rmSync(blobDir, { recursive: true, force: true }));
+
+describe("extractFile", () => {
+  it("makes plain text searchable", async () => {
+    const item = await fileItem("notes.md", Buffer.from("﻿# Ideas\nplant a walnut tree\n"));
+    assert.equal(item.extractionStatus, "done");
+    assert.deepEqual(await findIds("walnut "), [item.id]);
+  });
+
+  it("keeps the text of HTML, not its markup", async () => {
+    const item = await fileItem("page.html", Buffer.from('<p>Visit the <a href="https://example.com/heron">heron</a> pond</p>'));
+    assert.equal(item.extractionStatus, "done");
+    assert.deepEqual(await findIds("heron "), [item.id]);
+    assert.deepEqual(await findIds("example "), []);
+  });
+
+  it("reads every cell of a spreadsheet", async () => {
+    const item = await fileItem("budget.xlsx", await workbook([["Item", "Cost"], ["Telescope", "120"]]));
+    assert.equal(item.extractionStatus, "done");
+    assert.deepEqual(await findIds("telescope "), [item.id]);
+  });
+
+  it("fails archives that unpack past the limit", async () => {
+    // Distinct cells, since the workbook stores repeated strings once
+    const rows = Array.from({ length: 32 }, (_, i) => [`${i} ${"x".repeat(64 * 1024)}`]);
+    const item = await fileItem("huge.xlsx", await workbook(rows));
+    assert.ok(item.fileSize! < 1024 * 1024);
+    assert.equal(item.extractionStatus, "failed");
+  });
+
+  it("counts what archives really unpack to, not what they declare", async () => {
+    const rows = Array.from({ length: 32 }, (_, i) => [`${i} ${"y".repeat(64 * 1024)}`]);
+    const warn = mock.method(console, "warn", () => {});
+    try {
+      const item = await fileItem("bomb.xlsx", understateSizes(await workbook(rows)));
+      assert.equal(item.extractionStatus, "failed");
+      assert.match(String(warn.mock.calls[0].arguments[1]), /unpacks to more than/);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+
+  it("fails documents that cannot be read", async () => {
+    const item = await fileItem("broken.docx", Buffer.from("not a zip archive"));
+    assert.equal(item.extractionStatus, "failed");
+  });
+
+  it("leaves unknown formats and quarantined files alone", async () => {
+    const unknown = await fileItem("photo.raw", Buffer.from("raw sensor data"));
+    assert.equal(unknown.extractionStatus, "unsupported");
+    const quarantined = await fileItem("virus.txt", Buffer.from("quarantined words"), { scanStatus: "quarantined" });
+    assert.equal(quarantined.extractionStatus, "skipped");
+    assert.deepEqual(await findIds("quarantined "), []);
+  });
+});
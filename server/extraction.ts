@@ -0,0 +1,299 @@
+import path from "path";
+import zlib from "zlib";
+import ExcelJS from "exceljs";
+import mammoth from "mammoth";
+import { convert as htmlToText } from "html-to-text";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { Item } from "@shared/schema";
+import { storage } from "./storage-final";
+import { openContent } from "./contentStore";
+
+// Text is extracted from uploaded documents so search finds them by what
+// they say, not only by their names. A file is queued once its scan has a
+// verdict (scanning.ts); extractionStatus records the outcome and the text
+// goes to items.extracted_text, which the search index covers like note
+// content. POST /api/items/:id/reindex extracts a file again.
+//
+// Formats are recognized by extension, else by MIME type: PDF, DOCX, XLSX,
+// plain text, Markdown, CSV and HTML.
+
+type Format = "pdf" | "docx" | "xlsx" | "text" | "html";
+
+const FORMAT_BY_EXTENSION: Record<string, Format> = {
+  pdf: "pdf",
+  docx: "docx",
+  xlsx: "xlsx",
+  txt: "text",
+  text: "text",
+  md: "text",
+  markdown: "text",
+  csv: "text",
+  html: "html",
+  htm: "html",
+};
+
+const FORMAT_BY_MIME_TYPE: Record<string, Format> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/plain": "text",
+  "text/markdown": "text",
+  "text/csv": "text",
+  "text/html": "html",
+};
+
+// Larger files are left "unsupported" rather than read into memory
+const MAX_FILE_SIZE = parseInt(process.env.EXTRACTION_MAX_FILE_SIZE ?? "") || 25 * 1024 * 1024;
+// Text past this is dropped; Postgres caps a tsvector at 1MB
+const MAX_TEXT_LENGTH = 200_000;
+// DOCX and XLSX files are ZIP archives. The libraries reading them inflate
+// each entry whole before comparing it with the size the archive declares,
+// which the uploader chose, so archives are unpacked here first, counting
+// what every entry really inflates to, and passed on with their entries
+// stored uncompressed. Archives over either limit are not opened.
+const MAX_UNPACKED_SIZE = parseInt(process.env.EXTRACTION_MAX_UNPACKED_SIZE ?? "") || 200 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 10_000;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+interface ArchiveEntry {
+  name: Buffer;
+  // Only the UTF-8 names flag is kept
+  flags: number;
+  time: number;
+  date: number;
+  crc: number;
+  data: Buffer;
+}
+
+function inflateEntry(method: number, compressed: Buffer, limit: number): Buffer {
+  if (method === 0) return compressed;
+  if (method !== 8) {
+    throw new Error(`Unsupported ZIP compression method ${method}`);
+  }
+  try {
+    // Stops inflating once the output would pass the limit
+    return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(limit, 1) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`Archive unpacks to more than ${MAX_UNPACKED_SIZE} bytes`);
+    }
+    throw error;
+  }
+}
+
+// Reads a ZIP archive's entries through its central directory, within the
+// limits above. Throws if the archive is over them or unreadable.
+function readArchive(bytes: Buffer): ArchiveEntry[] {
+  // The end record is last, followed by a comment of up to 64KB
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (bytes.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const count = bytes.readUInt16LE(end + 10);
+  // ZIP64 archives mark their counts and offsets 0xFFFF(FFFF); they are not needed for documents
+  if (count === 0xffff || bytes.readUInt32LE(end + 16) === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+  if (count > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`Archive has ${count} entries, more than ${MAX_ARCHIVE_ENTRIES}`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let offset = bytes.readUInt32LE(end + 16);
+  let unpacked = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || bytes.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Archive central directory is corrupt");
+    }
+    const flags = bytes.readUInt16LE(offset + 8);
+    if (flags & 0x1) {
+      throw new Error("Encrypted archives are not supported");
+    }
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const local = bytes.readUInt32LE(offset + 42);
+    if (local + 30 > bytes.length || bytes.readUInt32LE(local) !== LOCAL_FILE_HEADER) {
+      throw new Error("Archive entry is corrupt");
+    }
+    const start = local + 30 + bytes.readUInt16LE(local + 26) + bytes.readUInt16LE(local + 28);
+    const compressed = bytes.subarray(start, start + bytes.readUInt32LE(offset + 20));
+
+    const data = inflateEntry(bytes.readUInt16LE(offset + 10), compressed, MAX_UNPACKED_SIZE - unpacked);
+    unpacked += data.length;
+    if (unpacked > MAX_UNPACKED_SIZE) {
+      throw new Error(`Archive unpacks to more than ${MAX_UNPACKED_SIZE} bytes`);
+    }
+    entries.push({
+      name: bytes.subarray(offset + 46, offset + 46 + nameLength),
+      flags: flags & 0x800,
+      time: bytes.readUInt16LE(offset + 12),
+      date: bytes.readUInt16LE(offset + 14),
+      crc: bytes.readUInt32LE(offset + 16),
+      data,
+    });
+    offset += 46 + nameLength + bytes.readUInt16LE(offset + 30) + bytes.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+// Writes the entries back out as a ZIP archive without compression
+function storedArchive(entries: ArchiveEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(10, 4);
+    local.writeUInt16LE(entry.flags, 6);
+    local.writeUInt16LE(entry.time, 10);
+    local.writeUInt16LE(entry.date, 12);
+    local.writeUInt32LE(entry.crc, 14);
+    local.writeUInt32LE(entry.data.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(entry.name.length, 26);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(10, 6);
+    header.writeUInt16LE(entry.flags, 8);
+    header.writeUInt16LE(entry.time, 12);
+    header.writeUInt16LE(entry.date, 14);
+    header.writeUInt32LE(entry.crc, 16);
+    header.writeUInt32LE(entry.data.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(entry.name.length, 28);
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, entry.name, entry.data);
+    directory.push(header, entry.name);
+    offset += local.length + entry.name.length + entry.data.length;
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, ...directory, end]);
+}
+
+function unpackArchive(bytes: Buffer): Buffer {
+  return storedArchive(readArchive(bytes));
+}
+
+const extractors: Record<Format, (bytes: Buffer) => Promise<string>> = {
+  async pdf(bytes) {
+    const pdf = await getDocumentProxy(new Uint8Array(bytes));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  },
+  async docx(bytes) {
+    const { value } = await mammoth.extractRawText({ buffer: unpackArchive(bytes) });
+    return value;
+  },
+  // Every sheet, a line per row with its cells separated by tabs
+  async xlsx(bytes) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(unpackArchive(bytes));
+    const lines: string[] = [];
+    workbook.eachSheet((sheet) => {
+      lines.push(sheet.name);
+      sheet.eachRow((row) => {
+        const cells: string[] = [];
+        row.eachCell((cell) => cells.push(cell.text));
+        lines.push(cells.join("\t"));
+      });
+    });
+    return lines.join("\n");
+  },
+  async text(bytes) {
+    return bytes.toString("utf8").replace(/^\uFEFF/, "");
+  },
+  async html(bytes) {
+    return htmlToText(bytes.toString("utf8"), {
+      wordwrap: false,
+      selectors: [
+        { selector: "a", options: { ignoreHref: true } },
+        { selector: "img", format: "skip" },
+      ],
+    });
+  },
+};
+
+function formatOf(item: Item): Format | undefined {
+  const extension = path.extname(item.fileName ?? "").slice(1).toLowerCase();
+  return FORMAT_BY_EXTENSION[extension]
+    ?? (item.mimeType ? FORMAT_BY_MIME_TYPE[item.mimeType.toLowerCase().split(";")[0].trim()] : undefined);
+}
+
+async function readContent(objectKey: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openContent(objectKey)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Postgres text cannot hold NUL characters
+function normalize(text: string): string {
+  return text.replace(/\u0000/g, "").replace(/[ \t]+\n/g, "\n").trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+// Extract the text of a file item and record the outcome. Throws if the
+// file could not be read; it then stays pending.
+export async function extractFile(item: Item): Promise<void> {
+  const objectKey = item.objectKey;
+  if (item.type !== "file" || !objectKey) return;
+
+  if (item.scanStatus === "quarantined") {
+    await storage.setExtractionResult(item.id, "skipped", null);
+    return;
+  }
+  const format = formatOf(item);
+  if (!format || (item.fileSize ?? 0) > MAX_FILE_SIZE) {
+    await storage.setExtractionResult(item.id, "unsupported", null);
+    return;
+  }
+
+  const bytes = await readContent(objectKey);
+  let text: string;
+  try {
+    text = await extractors[format](bytes);
+  } catch (error) {
+    // Corrupt, password-protected and oversized documents stay "failed" until re-indexed
+    console.warn(`Could not extract text from item ${item.id}:`, error);
+    await storage.setExtractionResult(item.id, "failed", null);
+    return;
+  }
+  await storage.setExtractionResult(item.id, "done", normalize(text));
+}
+
+// Extraction runs one file at a time in the background, apart from scans
+let queue = Promise.resolve();
+
+export function queueExtraction(item: Item): void {
+  queue = queue
+    .then(() => extractFile(item))
+    .catch((error) => console.error(`Error extracting text from item ${item.id}; it stays pending:`, error));
+}
+
+// Picks up files left pending by a restart or a read error, and files
+// stored before extraction was added
+export async function resumePendingExtractions(): Promise<void> {
+  const pending = await storage.getItemsByExtractionStatus("pending");
+  // Files still being scanned are queued when their scan finishes
+  pending.filter((item) => item.scanStatus !== "pending" && item.scanStatus !== "failed").forEach(queueExtraction);
+}
@@ -0,0 +1,114 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+
+// Keys and the blob store are set up when their modules load
+const blobDir = fs.mkdtempSync(path.join(os.tmpdir(), "file-encryption-test-"));
+process.env.BLOB_STORE = "local";
+process.env.BLOB_STORE_DIR = blobDir;
+process.env.FILE_ENCRYPTION_KEY = crypto.randomBytes(32).toString("base64");
+
+const { ctrCipher, decryptChunk, encryptChunk, newContentKey, rotateKeys } = await import("./fileEncryption");
+const { hashBuffer, openContent, storeContent } = await import("./contentStore");
+const { blobStore } = await import("./blobStore");
+const { storage } = await import("./storage-final");
+
+const userId = "encryption-user";
+const plaintext = crypto.randomBytes(5000);
+
+async function readAll(source: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function store(bytes: Buffer, owner = userId) {
+  return storeContent({ ...hashBuffer(bytes), userId: owner, body: () => bytes });
+}
+
+before(async () => {
+  await storage.upsertUser({ id: userId, email: "encryption@example.com" });
+  await storage.upsertUser({ id: "other-user", email: "other@example.com" });
+});
+
+after(() => fs.rmSync(blobDir, { recursive: true, force: true }));
+
+describe("ctrCipher", () => {
+  const { key, iv } = newContentKey();
+  const encrypted = ctrCipher(key, iv!).update(plaintext);
+
+  it("decrypts from any offset", () => {
+    for (const offset of [0, 1, 15, 16, 17, 1000, 4099]) {
+      const decrypted = ctrCipher(key, iv!, offset).update(encrypted.subarray(offset));
+      assert.ok(decrypted.equals(plaintext.subarray(offset)), `offset ${offset}`);
+    }
+  });
+
+  it("carries the counter past the end of the IV", () => {
+    const maxIv = Buffer.alloc(16, 0xff);
+    const whole = ctrCipher(key, maxIv).update(plaintext.subarray(0, 64));
+    assert.ok(ctrCipher(key, maxIv, 32).update(whole.subarray(32)).equals(plaintext.subarray(32, 64)));
+  });
+});
+
+describe("upload chunks", () => {
+  it("decrypt however the stream is split", async () => {
+    const { key } = newContentKey({ withIv: false });
+    const encrypted = await readAll(encryptChunk(key, Readable.from([plaintext])));
+    assert.equal(encrypted.length, plaintext.length + 16);
+
+    const pieces = [encrypted.subarray(0, 5), encrypted.subarray(5, 20), encrypted.subarray(20)];
+    assert.ok((await readAll(decryptChunk(key, pieces))).equals(plaintext));
+  });
+
+  it("reject a chunk shorter than its IV", async () => {
+    const { key } = newContentKey({ withIv: false });
+    await assert.rejects(readAll(decryptChunk(key, [Buffer.alloc(10)])), /truncated/);
+  });
+});
+
+describe("stored content", () => {
+  it("is encrypted at rest and read back whole", async () => {
+    const objectKey = await store(plaintext);
+    const stored = await readAll(await blobStore.getStream(objectKey));
+    assert.equal(stored.length, plaintext.length);
+    assert.ok(!stored.equals(plaintext));
+    assert.ok((await readAll(await openContent(objectKey))).equals(plaintext));
+  });
+
+  it("is read back in ranges", async () => {
+    const objectKey = await store(plaintext);
+    for (const [start, end] of [[0, 0], [1, 16], [15, 31], [4095, 4999], [4999, 4999]]) {
+      const range = await readAll(await openContent(objectKey, { start, end }));
+      assert.ok(range.equals(plaintext.subarray(start, end + 1)), `bytes ${start}-${end}`);
+    }
+  });
+
+  it("keeps one data key per user sharing it, stored concurrently", async () => {
+    const bytes = crypto.randomBytes(3000);
+    const [first, second] = await Promise.all([store(bytes), store(bytes, "other-user")]);
+    assert.equal(first, second);
+    assert.equal((await storage.getDataKeys(first)).length, 2);
+    assert.ok(!(await readAll(await blobStore.getStream(first))).equals(bytes));
+    assert.ok((await readAll(await openContent(first))).equals(bytes));
+  });
+
+  it("stays readable after key rotation", async () => {
+    const bytes = crypto.randomBytes(2000);
+    const objectKey = await store(bytes);
+    const oldKeys = await storage.getUserKeys(userId);
+
+    const result = await rotateKeys();
+    assert.ok(result.users >= 1 && result.dataKeys >= 1);
+    const newKeys = await storage.getUserKeys(userId);
+    assert.equal(newKeys.length, 1);
+    assert.ok(!oldKeys.some((key) => key.id === newKeys[0].id));
+    assert.ok((await readAll(await openContent(objectKey))).equals(bytes));
+  });
+});
@@ -0,0 +1,235 @@
+import crypto from "crypto";
+import { Readable, pipeline } from "stream";
+import type { UserKey } from "@shared/schema";
+import { storage } from "./storage-final";
+
+// Envelope encryption for stored files:
+//   FILE_ENCRYPTION_KEY   master key; wraps each user's key (user_keys)
+//   user key              wraps the data keys of the objects the user stored (data_keys)
+//   data key              encrypts one object with AES-256-CTR
+// CTR can start at any block, so ranged downloads decrypt without reading
+// from the start of the object. Keys are wrapped with AES-256-GCM.
+//
+// Master keys are 32 random bytes, base64 encoded. After changing
+// FILE_ENCRYPTION_KEY, list the old one in FILE_ENCRYPTION_PREVIOUS_KEYS
+// until `npm run keys:rotate` has re-wrapped every user key. Without
+// FILE_ENCRYPTION_KEY new files are stored as received, and objects without
+// a data key are always served as stored.
+
+const KEY_LENGTH = 32;
+const CTR_IV_LENGTH = 16;
+const GCM_IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+
+export interface ContentKey {
+  key: Buffer;
+  // Initial counter block; null for upload keys, whose chunks carry their own
+  iv: Buffer | null;
+}
+
+function parseMasterKey(value: string): Buffer {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error("File encryption keys must be 32 bytes, base64 encoded");
+  }
+  return key;
+}
+
+// Names a master key in user_keys without revealing anything about it
+function masterKeyId(key: Buffer): string {
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+const currentMasterKey = process.env.FILE_ENCRYPTION_KEY
+  ? parseMasterKey(process.env.FILE_ENCRYPTION_KEY)
+  : undefined;
+
+const masterKeys = new Map<string, Buffer>();
+for (const value of [process.env.FILE_ENCRYPTION_KEY, ...(process.env.FILE_ENCRYPTION_PREVIOUS_KEYS ?? "").split(",")]) {
+  if (value?.trim()) {
+    const key = parseMasterKey(value);
+    masterKeys.set(masterKeyId(key), key);
+  }
+}
+
+export function isFileEncryptionEnabled(): boolean {
+  return currentMasterKey !== undefined;
+}
+
+function requireMasterKey(): Buffer {
+  if (!currentMasterKey) {
+    throw new Error("FILE_ENCRYPTION_KEY is not set");
+  }
+  return currentMasterKey;
+}
+
+// IV, tag and ciphertext, base64 encoded together
+function wrapKey(key: Buffer, wrappingKey: Buffer): string {
+  const iv = crypto.randomBytes(GCM_IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", wrappingKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function unwrapKey(wrapped: string, wrappingKey: Buffer): Buffer {
+  const bytes = Buffer.from(wrapped, "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", wrappingKey, bytes.subarray(0, GCM_IV_LENGTH));
+  decipher.setAuthTag(bytes.subarray(GCM_IV_LENGTH, GCM_IV_LENGTH + GCM_TAG_LENGTH));
+  return Buffer.concat([decipher.update(bytes.subarray(GCM_IV_LENGTH + GCM_TAG_LENGTH)), decipher.final()]);
+}
+
+function unwrapUserKey(userKey: UserKey): Buffer {
+  const masterKey = masterKeys.get(userKey.masterKeyId);
+  if (!masterKey) {
+    throw new Error(
+      `Master key ${userKey.masterKeyId} is not configured; add it to FILE_ENCRYPTION_PREVIOUS_KEYS`,
+    );
+  }
+  return unwrapKey(userKey.wrappedKey, masterKey);
+}
+
+async function createUserKey(userId: string): Promise<{ row: UserKey; key: Buffer }> {
+  const masterKey = requireMasterKey();
+  const key = crypto.randomBytes(KEY_LENGTH);
+  const row = await storage.createUserKey({
+    userId,
+    wrappedKey: wrapKey(key, masterKey),
+    masterKeyId: masterKeyId(masterKey),
+  });
+  return { row, key };
+}
+
+// The user's newest key, created on first use
+async function currentUserKey(userId: string): Promise<{ row: UserKey; key: Buffer }> {
+  const keys = await storage.getUserKeys(userId);
+  const row = keys[keys.length - 1];
+  return row ? { row, key: unwrapUserKey(row) } : createUserKey(userId);
+}
+
+export function newContentKey({ withIv = true } = {}): ContentKey {
+  return {
+    key: crypto.randomBytes(KEY_LENGTH),
+    iv: withIv ? crypto.randomBytes(CTR_IV_LENGTH) : null,
+  };
+}
+
+// The data key of an object, unwrapped from any of its users' copies;
+// undefined if the object is stored unencrypted
+export async function getContentKey(objectKey: string): Promise<ContentKey | undefined> {
+  const [dataKey] = await storage.getDataKeys(objectKey);
+  if (!dataKey) return undefined;
+
+  const userKey = (await storage.getUserKeys(dataKey.userId)).find((key) => key.id === dataKey.userKeyId);
+  if (!userKey) {
+    throw new Error(`User key ${dataKey.userKeyId} for ${objectKey} is missing`);
+  }
+  return {
+    key: unwrapKey(dataKey.wrappedKey, unwrapUserKey(userKey)),
+    iv: dataKey.iv ? Buffer.from(dataKey.iv, "base64") : null,
+  };
+}
+
+// Wrap an object's data key with the user's key. Each user referencing a
+// deduplicated object gets their own copy.
+export async function grantContentKey(objectKey: string, userId: string, content: ContentKey): Promise<void> {
+  const grant = async () => {
+    const userKey = await currentUserKey(userId);
+    await storage.setDataKey({
+      objectKey,
+      userId,
+      userKeyId: userKey.row.id,
+      wrappedKey: wrapKey(content.key, userKey.key),
+      iv: content.iv?.toString("base64") ?? null,
+    });
+  };
+  try {
+    await grant();
+  } catch (error) {
+    // A key rotation may have replaced the user key in the meantime; the
+    // data key is then wrapped with the new one
+    if (!isDeletedUserKey(error)) throw error;
+    await grant();
+  }
+}
+
+// Postgres reports a foreign_key_violation when the data key referred to a
+// user key that was deleted before it could be stored
+function isDeletedUserKey(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === "23503";
+}
+
+// AES-256-CTR positioned `offset` bytes into the object. Encrypting and
+// decrypting are the same operation.
+export function ctrCipher(key: Buffer, iv: Buffer, offset = 0): crypto.Cipher {
+  const counter = (BigInt(`0x${iv.toString("hex")}`) + BigInt(Math.floor(offset / 16))) % (BigInt(1) << BigInt(128));
+  const cipher = crypto.createCipheriv("aes-256-ctr", key, Buffer.from(counter.toString(16).padStart(32, "0"), "hex"));
+  // Skip to the offset within its block
+  if (offset % 16) {
+    cipher.update(Buffer.alloc(offset % 16));
+  }
+  return cipher;
+}
+
+// An upload chunk under the upload's key, prefixed with the chunk's own IV
+export function encryptChunk(key: Buffer, source: Readable): Readable {
+  const iv = crypto.randomBytes(CTR_IV_LENGTH);
+  const encrypted = pipeline(source, ctrCipher(key, iv), () => {});
+  return Readable.from((async function* () {
+    yield iv;
+    yield* encrypted;
+  })());
+}
+
+export async function* decryptChunk(key: Buffer, source: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+  let header = Buffer.alloc(0);
+  let decipher: crypto.Cipher | undefined;
+  for await (const chunk of source) {
+    if (decipher) {
+      yield decipher.update(chunk);
+      continue;
+    }
+    header = Buffer.concat([header, chunk]);
+    if (header.length >= CTR_IV_LENGTH) {
+      decipher = ctrCipher(key, header.subarray(0, CTR_IV_LENGTH));
+      yield decipher.update(header.subarray(CTR_IV_LENGTH));
+    }
+  }
+  if (!decipher) {
+    throw new Error("Encrypted chunk is truncated");
+  }
+}
+
+export interface RotationResult {
+  users: number;
+  dataKeys: number;
+}
+
+// Give every user a new key wrapped by the current master key, and re-wrap
+// their data keys with it. Only keys change; stored objects are not rewritten.
+// Each user's keys are replaced in one transaction, so it can run while
+// files are being uploaded.
+export async function rotateKeys(): Promise<RotationResult> {
+  const masterKey = requireMasterKey();
+
+  // Unwrapping every key first means a missing master key fails the
+  // rotation before anything has changed
+  const rows = await storage.getUserKeys();
+  const secrets = new Map(rows.map((row) => [row.id, unwrapUserKey(row)]));
+  const userIds = new Set(rows.map((row) => row.userId));
+
+  const result: RotationResult = { users: 0, dataKeys: 0 };
+  for (const userId of Array.from(userIds)) {
+    const key = crypto.randomBytes(KEY_LENGTH);
+    result.dataKeys += await storage.replaceUserKeys(
+      userId,
+      { userId, wrappedKey: wrapKey(key, masterKey), masterKeyId: masterKeyId(masterKey) },
+      // Keys created since the first pass are unwrapped as they are met
+      (dataKey, oldKey) => {
+        const oldSecret = secrets.get(oldKey.id) ?? unwrapUserKey(oldKey);
+        return wrapKey(unwrapKey(dataKey.wrappedKey, oldSecret), key);
+      },
+    );
+    result.users++;
+  }
+  return result;
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import type { ByteRange } from "./blobStore";
+import { openContent } from "./contentStore";
+
+export interface BlobResponseOptions {
+  objectKey: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string | null;
+  fileName?: string | null;
+  disposition: "inline" | "attachment";
+}
+
+// HTTP dates have one-second precision
+function toHttpTime(date: Date): number {
+  return Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function isNotModified(req: Request, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return ifNoneMatch.trim() === "*" || ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .includes(etag);
+  }
+
+  const ifModifiedSince = req.headers["if-modified-since"];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && toHttpTime(lastModified) <= since;
+  }
+
+  return false;
+}
+
+// A Range is only honoured if If-Range (when sent) still matches the file
+function isRangeApplicable(req: Request, etag: string, lastModified: Date): boolean {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return ifRange === etag;
+  }
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && toHttpTime(lastModified) <= date;
+}
+
+function contentDisposition(type: "inline" | "attachment", fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Stream a stored blob to the client with range and conditional request
+// support. Throws BlobNotFoundError before any header is written if the
+// blob is missing, so callers can still answer with a 404.
+export async function sendBlob(req: Request, res: Response, options: BlobResponseOptions) {
+  const { objectKey, size, lastModified } = options;
+  // Blobs are never rewritten under the same key, so key and size identify the bytes
+  const etag = `"${crypto.createHash("sha1").update(`${objectKey}:${size}`).digest("hex")}"`;
+
+  if (isNotModified(req, etag, lastModified)) {
+    res.status(304);
+    res.setHeader("ETag", etag);
+    res.setHeader("Last-Modified", lastModified.toUTCString());
+    res.end();
+    return;
+  }
+
+  let range: ByteRange | undefined;
+  if (req.headers.range && size > 0 && isRangeApplicable(req, etag, lastModified)) {
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+      res.status(416);
+      res.setHeader("Content-Range", `bytes */${size}`);
+      res.end();
+      return;
+    }
+    // Multipart byte ranges are not supported; fall back to the whole file
+    if (ranges !== undefined && ranges !== -2 && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  const stream = req.method === "HEAD" ? undefined : await openContent(objectKey, range);
+
+  res.status(range ? 206 : 200);
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", lastModified.toUTCString());
+  // Access is checked on every request, so always revalidate
+  res.setHeader("Cache-Control", "private, no-cache");
+  if (options.contentType) {
+    res.setHeader("Content-Type", options.contentType);
+  }
+  if (options.fileName) {
+    res.setHeader("Content-Disposition", contentDisposition(options.disposition, options.fileName));
+  }
+  if (range) {
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", String(range.end - range.start + 1));
+  } else {
+    res.setHeader("Content-Length", String(size));
+  }
+
+  if (!stream) {
+    res.end();
+    return;
+  }
+
+  stream.on("error", (error) => {
+    console.error("Error streaming file:", error);
+    res.destroy(error);
+  });
+  res.on("close", () => stream.destroy());
+  stream.pipe(res);
+}
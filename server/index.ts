@@ -1,12 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { initializeDatabase } from "./db";
+import { runMigrations } from "./migrations";
+import { usesMemoryStorage } from "./storage-final";
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Responses carrying secrets, like TOTP secrets, recovery codes, API tokens
+// and share link URLs, are logged without their bodies
+const SECRET_RESPONSE_PATHS = [/^\/api\/auth\/2fa(\/|$)/, /^\/api\/tokens(\/|$)/, /^\/api\/items\/[^/]+\/share-links$/];
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -23,7 +28,8 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        const hasSecrets = SECRET_RESPONSE_PATHS.some((pattern) => pattern.test(path));
+        logLine += hasSecrets ? " :: [redacted]" : ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
       if (logLine.length > 80) {
@@ -38,8 +44,21 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Initialize database before starting the server
-  await initializeDatabase();
+  // Bring the schema up to date before starting the server; refuse to
+  // boot against a database we could not migrate
+  if (usesMemoryStorage) {
+    log("using in-memory storage; data will not persist");
+  } else {
+    try {
+      const applied = await runMigrations();
+      if (applied.length > 0) {
+        log(`applied migrations: ${applied.join(", ")}`);
+      }
+    } catch (error) {
+      console.error("Database migration failed:", error);
+      process.exit(1);
+    }
+  }
   
   const server = await registerRoutes(app);
 
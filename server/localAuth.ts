@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { localSignUpSchema } from "@shared/schema";
+import { storage } from "./storage-final";
+import { hashPassword, verifyPassword } from "./passwords";
+import {
+  createSessionUser,
+  signIn,
+  type AuthProvider,
+  type SessionUser,
+  type UserClaims,
+} from "./auth";
+import { recordAudit } from "./audit";
+import { hasTwoFactor, startTwoFactorChallenge } from "./twoFactor";
+
+// Email and password accounts stored in local_accounts:
+//   POST /api/auth/local/register   create an account and sign in
+//   POST /api/auth/local/login      sign in; answers { twoFactorRequired: true }
+//                                   when a code is needed next, see twoFactor.ts
+// Set LOCAL_AUTH_ALLOW_SIGNUP=false to only allow existing accounts.
+
+const allowSignUp = process.env.LOCAL_AUTH_ALLOW_SIGNUP !== "false";
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Sign-up answers the same whether the email has a password here or belongs
+// to a user of another sign-in method, without saying which
+const SIGN_UP_REFUSED = "Could not create an account with this email. If you already have one, sign in instead.";
+
+async function isEmailTaken(email: string): Promise<boolean> {
+  return !!(await storage.getLocalAccount(email)) || !!(await storage.getUserByEmail(email));
+}
+
+// Checked against when the email is unknown, so response times do not reveal which accounts exist
+let decoyHash: Promise<string> | undefined;
+function getDecoyHash(): Promise<string> {
+  decoyHash ??= hashPassword(crypto.randomBytes(16).toString("hex"));
+  return decoyHash;
+}
+
+export function createLocalProvider(): AuthProvider {
+  return {
+    id: "local",
+    label: "Email and password",
+    kind: "password",
+
+    async setup(app) {
+      passport.use("local", new LocalStrategy(
+        { usernameField: "email", passReqToCallback: true },
+        async (req, email, password, done) => {
+          try {
+            const account = await storage.getLocalAccount(normalizeEmail(email));
+            const valid = await verifyPassword(password, account?.passwordHash ?? (await getDecoyHash()));
+            // Wrong passwords for an existing account show up in its owner's log
+            if (account && !valid) {
+              await recordAudit(req, {
+                action: "auth.login_failed",
+                userId: account.userId,
+                actorId: null,
+                details: { provider: "local" },
+              });
+            }
+            const user = account && valid ? await storage.getUser(account.userId) : undefined;
+            if (!user) return done(null, false);
+
+            const claims: UserClaims = {
+              sub: user.id,
+              email: user.email ?? undefined,
+              first_name: user.firstName ?? undefined,
+              last_name: user.lastName ?? undefined,
+            };
+            done(null, createSessionUser("local", claims));
+          } catch (error) {
+            done(error);
+          }
+        }
+      ));
+
+      app.post("/api/auth/local/login", (req, res, next) => {
+        passport.authenticate("local", (err: unknown, user: SessionUser | false) => {
+          if (err) return next(err);
+          if (!user) {
+            return res.status(401).json({ message: "Invalid email or password" });
+          }
+          hasTwoFactor(user.claims.sub).then(async (required) => {
+            if (required) {
+              await startTwoFactorChallenge(req, user);
+              return res.json({ twoFactorRequired: true });
+            }
+            await signIn(req, user);
+            res.json({ success: true });
+          }).catch(next);
+        })(req, res, next);
+      });
+
+      app.post("/api/auth/local/register", async (req, res) => {
+        try {
+          if (!allowSignUp) {
+            return res.status(403).json({ message: "Sign-up is disabled" });
+          }
+
+          const validation = localSignUpSchema.safeParse(req.body);
+          if (!validation.success) {
+            return res.status(400).json({
+              message: "Invalid sign-up",
+              errors: validation.error.issues
+            });
+          }
+
+          const { password, firstName, lastName } = validation.data;
+          const email = normalizeEmail(validation.data.email);
+          // Hashed before the check, so response times do not reveal it either
+          const passwordHash = await hashPassword(password);
+          if (await isEmailTaken(email)) {
+            return res.status(400).json({ message: SIGN_UP_REFUSED });
+          }
+
+          const claims: UserClaims = {
+            sub: crypto.randomUUID(),
+            email,
+            first_name: firstName,
+            last_name: lastName,
+          };
+          try {
+            await storage.createLocalAccount({ id: claims.sub, email, firstName, lastName }, { email, passwordHash });
+          } catch (error) {
+            // Another sign-up, or a first sign-in elsewhere, took the email meanwhile
+            if (await isEmailTaken(email)) {
+              return res.status(400).json({ message: SIGN_UP_REFUSED });
+            }
+            throw error;
+          }
+
+          await signIn(req, createSessionUser("local", claims));
+          res.status(201).json({ success: true });
+        } catch (error) {
+          console.error("Error creating local account:", error);
+          res.status(500).json({ message: "Failed to create account" });
+        }
+      });
+    },
+  };
+}
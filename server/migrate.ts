@@ -0,0 +1,43 @@
+// Migration CLI: tsx server/migrate.ts [status | up | rollback [steps]]
+import { runMigrations, rollbackMigrations, getMigrationStatus } from "./migrations";
+
+async function main() {
+  const [command = "status", arg] = process.argv.slice(2);
+
+  switch (command) {
+    case "status": {
+      const statuses = await getMigrationStatus();
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? `  ${status.appliedAt.toISOString()}` : "";
+        console.log(`${status.state.padEnd(8)} ${status.tag}${appliedAt}`);
+      }
+      if (statuses.length === 0) {
+        console.log("No migrations found");
+      }
+      break;
+    }
+    case "up": {
+      const applied = await runMigrations();
+      console.log(applied.length ? `Applied ${applied.join(", ")}` : "Database is up to date");
+      break;
+    }
+    case "rollback": {
+      const steps = arg ? parseInt(arg) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of steps: ${arg}`);
+      }
+      const reverted = await rollbackMigrations(steps);
+      console.log(reverted.length ? `Rolled back ${reverted.join(", ")}` : "Nothing to roll back");
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}. Use status, up or rollback [steps].`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sql } from "drizzle-orm";
+
+// An empty in-memory database for this file, whatever DATABASE_URL says
+process.env.DATABASE_URL = "pglite://memory";
+delete process.env.DATABASE_DRIVER;
+
+const { db } = await import("./db");
+const { getMigrationStatus, loadMigrations, MigrationError, rollbackMigrations, runMigrations } = await import("./migrations");
+
+const tags = loadMigrations().map((migration) => migration.tag);
+
+async function tableExists(name: string): Promise<boolean> {
+  const result = await db.execute(sql`SELECT to_regclass(${name}) AS oid`);
+  const rows = Array.isArray(result) ? result : (result as { rows: any[] }).rows;
+  return rows[0].oid !== null;
+}
+
+async function states(): Promise<string[]> {
+  return (await getMigrationStatus()).map((status) => `${status.tag} ${status.state}`);
+}
+
+// The tests build on each other, from an empty database
+describe("migration runner", () => {
+  it("lists migrations with down files, in journal order", () => {
+    assert.ok(tags.length > 0);
+    assert.deepEqual([...tags].sort(), tags);
+    for (const migration of loadMigrations()) {
+      assert.ok(migration.up.length > 0, migration.tag);
+      assert.ok(migration.down && migration.down.length > 0, `${migration.tag} has no down migration`);
+    }
+  });
+
+  it("applies every pending migration", async () => {
+    assert.deepEqual(await runMigrations(), tags);
+    assert.ok(await tableExists("items"));
+    assert.deepEqual(await states(), tags.map((tag) => `${tag} applied`));
+  });
+
+  it("does nothing when up to date", async () => {
+    assert.deepEqual(await runMigrations(), []);
+  });
+
+  it("rolls back the newest migrations and applies them again", async () => {
+    const newest = tags.slice(-2);
+    assert.deepEqual(await rollbackMigrations(2), [...newest].reverse());
+    assert.deepEqual((await states()).slice(-2), newest.map((tag) => `${tag} pending`));
+    assert.deepEqual(await runMigrations(), newest);
+  });
+
+  it("rolls every migration back to an empty schema and up again", async () => {
+    assert.deepEqual(await rollbackMigrations(tags.length), [...tags].reverse());
+    assert.ok(!(await tableExists("items")));
+    assert.ok(!(await tableExists("users")));
+    assert.deepEqual(await runMigrations(), tags);
+  });
+
+  it("refuses to run after an applied migration was modified", async () => {
+    const [first] = tags;
+    await db.execute(sql`UPDATE schema_migrations SET hash = 'edited' WHERE tag = ${first}`);
+    try {
+      await assert.rejects(runMigrations(), MigrationError);
+      assert.equal((await states())[0], `${first} modified`);
+    } finally {
+      const hash = loadMigrations()[0].hash;
+      await db.execute(sql`UPDATE schema_migrations SET hash = ${hash} WHERE tag = ${first}`);
+    }
+  });
+
+  it("reports migrations missing from the checkout", async () => {
+    await db.execute(sql`INSERT INTO schema_migrations (tag, hash) VALUES ('9999_elsewhere', 'x')`);
+    assert.equal((await states()).at(-1), "9999_elsewhere unknown");
+    await db.execute(sql`DELETE FROM schema_migrations WHERE tag = '9999_elsewhere'`);
+  });
+});
@@ -0,0 +1,192 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+
+// Migrations are generated by `npm run db:generate` (drizzle-kit) into
+// migrations/, listed in order by meta/_journal.json. drizzle-kit does not
+// write down migrations, so rollbacks read a hand-written <tag>.down.sql.
+const migrationsDir = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Arbitrary constant; serializes migration runs across app instances
+const MIGRATION_LOCK_ID = 724_201_105;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface Migration {
+  tag: string;
+  hash: string;
+  up: string[];
+  down?: string[];
+}
+
+export interface MigrationStatus {
+  tag: string;
+  state: "applied" | "pending" | "modified" | "unknown";
+  appliedAt?: Date;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+interface AppliedMigration {
+  tag: string;
+  hash: string;
+  appliedAt: Date;
+}
+
+function splitStatements(source: string): string[] {
+  return source
+    .split("--> statement-breakpoint")
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+export function loadMigrations(): Migration[] {
+  const journalPath = path.join(migrationsDir, "meta", "_journal.json");
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf-8")) as {
+    entries: { idx: number; tag: string }[];
+  };
+
+  return [...journal.entries]
+    .sort((a, b) => a.idx - b.idx)
+    .map(({ tag }) => {
+      const source = fs.readFileSync(path.join(migrationsDir, `${tag}.sql`), "utf-8");
+      const downPath = path.join(migrationsDir, `${tag}.down.sql`);
+      return {
+        tag,
+        hash: crypto.createHash("sha256").update(source).digest("hex"),
+        up: splitStatements(source),
+        down: fs.existsSync(downPath)
+          ? splitStatements(fs.readFileSync(downPath, "utf-8"))
+          : undefined,
+      };
+    });
+}
+
+// Each driver shapes execute() results differently; all of them carry rows
+function rowsOf(result: unknown): any[] {
+  return Array.isArray(result) ? result : (result as { rows: any[] }).rows;
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      tag VARCHAR PRIMARY KEY,
+      hash VARCHAR NOT NULL,
+      applied_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+}
+
+async function getAppliedMigrations(tx: Transaction | typeof db): Promise<AppliedMigration[]> {
+  const result = await tx.execute(
+    sql`SELECT tag, hash, applied_at FROM schema_migrations ORDER BY applied_at, tag`,
+  );
+  return rowsOf(result).map((row) => ({
+    tag: row.tag,
+    hash: row.hash,
+    appliedAt: new Date(row.applied_at),
+  }));
+}
+
+async function lockMigrations(tx: Transaction): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`);
+}
+
+// Apply every pending migration in one transaction. Throws, leaving the
+// database untouched, if any statement fails or an applied migration file
+// was edited after the fact.
+export async function runMigrations(): Promise<string[]> {
+  const migrations = loadMigrations();
+  await ensureMigrationsTable();
+
+  return await db.transaction(async (tx) => {
+    await lockMigrations(tx);
+    const applied = new Map(
+      (await getAppliedMigrations(tx)).map((migration) => [migration.tag, migration]),
+    );
+
+    for (const migration of migrations) {
+      const record = applied.get(migration.tag);
+      if (record && record.hash !== migration.hash) {
+        throw new MigrationError(
+          `Migration ${migration.tag} was modified after it was applied`,
+        );
+      }
+    }
+
+    const pending = migrations.filter((migration) => !applied.has(migration.tag));
+    for (const migration of pending) {
+      for (const statement of migration.up) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.execute(
+        sql`INSERT INTO schema_migrations (tag, hash) VALUES (${migration.tag}, ${migration.hash})`,
+      );
+    }
+
+    return pending.map((migration) => migration.tag);
+  });
+}
+
+// Revert the most recently applied migrations, newest first
+export async function rollbackMigrations(steps = 1): Promise<string[]> {
+  const migrations = loadMigrations();
+  await ensureMigrationsTable();
+
+  return await db.transaction(async (tx) => {
+    await lockMigrations(tx);
+    const appliedTags = new Set((await getAppliedMigrations(tx)).map((migration) => migration.tag));
+    const targets = migrations
+      .filter((migration) => appliedTags.has(migration.tag))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of targets) {
+      if (!migration.down) {
+        throw new MigrationError(
+          `Migration ${migration.tag} has no ${migration.tag}.down.sql and cannot be rolled back`,
+        );
+      }
+      for (const statement of migration.down) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.execute(sql`DELETE FROM schema_migrations WHERE tag = ${migration.tag}`);
+    }
+
+    return targets.map((migration) => migration.tag);
+  });
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  await ensureMigrationsTable();
+  const applied = await getAppliedMigrations(db);
+  const appliedByTag = new Map(applied.map((migration) => [migration.tag, migration]));
+  const knownTags = new Set(migrations.map((migration) => migration.tag));
+
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const record = appliedByTag.get(migration.tag);
+    if (!record) return { tag: migration.tag, state: "pending" };
+    return {
+      tag: migration.tag,
+      state: record.hash === migration.hash ? "applied" : "modified",
+      appliedAt: record.appliedAt,
+    };
+  });
+
+  // Applied in the database but missing from this checkout
+  for (const record of applied) {
+    if (!knownTags.has(record.tag)) {
+      statuses.push({ tag: record.tag, state: "unknown", appliedAt: record.appliedAt });
+    }
+  }
+
+  return statuses;
+}
@@ -0,0 +1,154 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunctionWithRequest } from "openid-client/passport";
+import passport from "passport";
+import memoize from "memoizee";
+import type { Express, Request } from "express";
+import { upsertUser, type AuthProvider, type SessionUser, type UserClaims } from "./auth";
+import { recordAudit } from "./audit";
+
+type TokenResponse = client.TokenEndpointResponse & client.TokenEndpointResponseHelpers;
+
+export interface OidcProviderOptions {
+  id: string;
+  label: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope: string;
+  prompt?: string;
+  loginPath: string;
+  callbackPath: string;
+  // Redirect URI sent to the issuer; defaults to callbackPath on the request's host
+  callbackUrl?: string | ((req: Request) => string);
+  // When set, logins are only accepted on these hosts
+  hosts?: string[];
+}
+
+function updateUserSession(user: SessionUser, tokens: TokenResponse) {
+  user.claims = tokens.claims() as UserClaims;
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token;
+  user.expires_at = user.claims?.exp!;
+}
+
+// Sign in with any OpenID Connect issuer. One passport strategy is registered
+// per redirect URI, since the URI differs between the hosts the app serves.
+export function createOidcProvider(options: OidcProviderOptions): AuthProvider {
+  const getOidcConfig = memoize(
+    async () => {
+      return await client.discovery(
+        new URL(options.issuerUrl),
+        options.clientId,
+        options.clientSecret,
+      );
+    },
+    { maxAge: 3600 * 1000 }
+  );
+
+  let config: client.Configuration;
+  const strategies = new Set<string>();
+
+  const verify: VerifyFunctionWithRequest = async (
+    req: Request,
+    tokens: TokenResponse,
+    verified: passport.AuthenticateCallback
+  ) => {
+    const user = { provider: options.id } as SessionUser;
+    updateUserSession(user, tokens);
+    await upsertUser(user.claims);
+    // Passport signs the user in after this, so the ids are given explicitly
+    await recordAudit(req, {
+      action: "auth.login",
+      userId: user.claims.sub,
+      actorId: user.claims.sub,
+      details: { provider: options.id },
+    });
+    verified(null, user);
+  };
+
+  function callbackUrlFor(req: Request): string {
+    if (typeof options.callbackUrl === "function") return options.callbackUrl(req);
+    return options.callbackUrl ?? `${req.protocol}://${req.get("host")}${options.callbackPath}`;
+  }
+
+  // The strategy name for this request, registering it on first use
+  function strategyFor(req: Request): string | undefined {
+    if (options.hosts && !options.hosts.includes(req.hostname)) return undefined;
+
+    const callbackURL = callbackUrlFor(req);
+    const name = `${options.id}:${callbackURL}`;
+    if (!strategies.has(name)) {
+      passport.use(new Strategy({ name, config, scope: options.scope, callbackURL, passReqToCallback: true }, verify));
+      strategies.add(name);
+    }
+    return name;
+  }
+
+  return {
+    id: options.id,
+    label: options.label,
+    kind: "redirect",
+
+    async setup(app: Express) {
+      config = await getOidcConfig();
+
+      app.get(options.loginPath, (req, res, next) => {
+        const strategy = strategyFor(req);
+        if (!strategy) {
+          return res.status(404).json({ message: "Sign-in is not available on this host" });
+        }
+        passport.authenticate(strategy, {
+          prompt: options.prompt,
+          scope: options.scope.split(" "),
+        } as passport.AuthenticateOptions)(req, res, next);
+      });
+
+      app.get(options.callbackPath, (req, res, next) => {
+        const strategy = strategyFor(req);
+        if (!strategy) {
+          return res.status(404).json({ message: "Sign-in is not available on this host" });
+        }
+        passport.authenticate(strategy, {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+        })(req, res, next);
+      });
+    },
+
+    async refresh(user) {
+      if (!user.refresh_token) return false;
+      const tokenResponse = await client.refreshTokenGrant(await getOidcConfig(), user.refresh_token);
+      updateUserSession(user, tokenResponse);
+      return true;
+    },
+
+    logoutUrl(req) {
+      if (!config.serverMetadata().end_session_endpoint) return undefined;
+      return client.buildEndSessionUrl(config, {
+        client_id: options.clientId,
+        post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
+      }).href;
+    },
+  };
+}
+
+// The "oidc" provider, configured from OIDC_* environment variables
+export function createGenericOidcProvider(): AuthProvider {
+  const issuerUrl = process.env.OIDC_ISSUER_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuerUrl || !clientId) {
+    throw new Error("OIDC_ISSUER_URL and OIDC_CLIENT_ID must be set for the oidc auth provider");
+  }
+
+  return createOidcProvider({
+    id: "oidc",
+    label: process.env.OIDC_LABEL ?? "Single sign-on",
+    issuerUrl,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scope: process.env.OIDC_SCOPE ?? "openid email profile offline_access",
+    loginPath: "/api/login/oidc",
+    callbackPath: "/api/callback/oidc",
+    callbackUrl: process.env.OIDC_CALLBACK_URL,
+  });
+}
@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { hashPassword, verifyPassword } from "./passwords";
+
+describe("passwords", () => {
+  it("are stored salted with their scheme", async () => {
+    const stored = await hashPassword("correct horse battery");
+    assert.match(stored, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    assert.notEqual(await hashPassword("correct horse battery"), stored);
+  });
+
+  it("verify only the password they were made from", async () => {
+    const stored = await hashPassword("correct horse battery");
+    assert.equal(await verifyPassword("correct horse battery", stored), true);
+    assert.equal(await verifyPassword("Correct horse battery", stored), false);
+    assert.equal(await verifyPassword("", stored), false);
+  });
+
+  it("do not verify against unknown schemes or malformed hashes", async () => {
+    const [, salt, hash] = (await hashPassword("secret")).split("$");
+    assert.equal(await verifyPassword("secret", `bcrypt$${salt}$${hash}`), false);
+    assert.equal(await verifyPassword("secret", `scrypt$${salt}`), false);
+    assert.equal(await verifyPassword("secret", ""), false);
+  });
+});
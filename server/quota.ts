@@ -0,0 +1,73 @@
+import { mimeCategory, type UsageReport, type UsageBucket } from "@shared/schema";
+import { storage } from "./storage-final";
+
+// Default per-user limits. Set to 0 for no limit; users.storage_quota and
+// users.item_quota override them for individual users.
+const DEFAULT_STORAGE_QUOTA = parseLimit(process.env.QUOTA_STORAGE_BYTES, 5 * 1024 * 1024 * 1024); // 5GB
+const DEFAULT_ITEM_QUOTA = parseLimit(process.env.QUOTA_ITEMS, 10000);
+
+export interface QuotaLimits {
+  bytes: number | null;
+  items: number | null;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+function parseLimit(value: string | undefined, fallback: number): number | null {
+  if (!value) return fallback;
+  const limit = parseInt(value);
+  if (isNaN(limit) || limit < 0) {
+    throw new Error(`Invalid quota: ${value}`);
+  }
+  return limit === 0 ? null : limit;
+}
+
+export async function getQuotaLimits(userId: string): Promise<QuotaLimits> {
+  const user = await storage.getUser(userId);
+  return {
+    bytes: user?.storageQuota ?? DEFAULT_STORAGE_QUOTA,
+    items: user?.itemQuota ?? DEFAULT_ITEM_QUOTA,
+  };
+}
+
+function addTo(buckets: Record<string, UsageBucket>, key: string, count: number, bytes: number) {
+  const bucket = buckets[key] ?? (buckets[key] = { count: 0, bytes: 0 });
+  bucket.count += count;
+  bucket.bytes += bytes;
+}
+
+export async function getUsageReport(userId: string): Promise<UsageReport> {
+  const [usage, limits] = await Promise.all([
+    storage.getItemUsage(userId),
+    getQuotaLimits(userId),
+  ]);
+
+  const report: UsageReport = { bytes: 0, items: 0, limits, byType: {}, byCategory: {} };
+  for (const { type, mimeType, count, bytes } of usage) {
+    report.items += count;
+    report.bytes += bytes;
+    addTo(report.byType, type, count, bytes);
+    if (type === "file") {
+      addTo(report.byCategory, mimeCategory(mimeType), count, bytes);
+    }
+  }
+  return report;
+}
+
+// Throws QuotaExceededError if adding `bytes` in `items` new items would
+// take the user over either limit
+export async function assertWithinQuota(userId: string, bytes: number, items = 1): Promise<void> {
+  const { bytes: usedBytes, items: usedItems, limits } = await getUsageReport(userId);
+
+  if (limits.items !== null && usedItems + items > limits.items) {
+    throw new QuotaExceededError(`Item limit of ${limits.items} reached`);
+  }
+  if (limits.bytes !== null && usedBytes + bytes > limits.bytes) {
+    throw new QuotaExceededError("Storage quota exceeded");
+  }
+}
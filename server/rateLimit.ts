@@ -0,0 +1,112 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage-final";
+
+// Request rate limits, counted in fixed windows in the database so every
+// instance shares them. Each bucket counts per user, per client IP or both;
+// a request over any of its limits gets a 429 with Retry-After.
+//
+// Limits are "<requests>/<window>", e.g. "600/1m", and can be overridden
+// with RATE_LIMIT_<BUCKET>_<USER|IP>, e.g. RATE_LIMIT_CREATE_USER=50/10m.
+// Set one to 0 to turn it off.
+
+export type RateLimitBucket = "api" | "login" | "upload" | "create";
+
+interface Limit {
+  max: number;
+  windowMs: number;
+}
+
+interface BucketLimits {
+  user: Limit | null;
+  ip: Limit | null;
+}
+
+const WINDOW_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+const PURGE_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+function parseLimit(value: string): Limit | null {
+  if (value.trim() === "0") return null;
+  const match = value.trim().match(/^(\d+)\/(\d+)([smh])$/);
+  if (!match || parseInt(match[1]) === 0 || parseInt(match[2]) === 0) {
+    throw new Error(`Invalid rate limit: ${value}`);
+  }
+  return { max: parseInt(match[1]), windowMs: parseInt(match[2]) * WINDOW_UNITS[match[3]] };
+}
+
+function bucketLimits(bucket: RateLimitBucket, defaults: { user?: string; ip?: string }): BucketLimits {
+  const env = (scope: string) => process.env[`RATE_LIMIT_${bucket.toUpperCase()}_${scope}`];
+  return {
+    user: parseLimit(env("USER") ?? defaults.user ?? "0"),
+    ip: parseLimit(env("IP") ?? defaults.ip ?? "0"),
+  };
+}
+
+const buckets: Record<RateLimitBucket, BucketLimits> = {
+  // Every API request
+  api: bucketLimits("api", { user: "600/1m", ip: "1200/1m" }),
+  // Sign-in and share link passwords, by IP since the user is not known yet
+  login: bucketLimits("login", { ip: "30/15m" }),
+  // New files, whether uploaded at once or resumable
+  upload: bucketLimits("upload", { user: "100/1h" }),
+  // New notes, contacts and links
+  create: bucketLimits("create", { user: "120/10m" }),
+};
+
+let nextPurge = 0;
+
+// Drops ended windows now and then, so the table only holds active counters
+function purgeExpiredCounters(now: Date) {
+  if (now.getTime() < nextPurge) return;
+  nextPurge = now.getTime() + PURGE_INTERVAL;
+  storage.deleteExpiredRateLimits(now).catch((error) => {
+    console.error("Error purging rate limits:", error);
+  });
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 60) return seconds === 1 ? "1 second" : `${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+// Counts the request against the bucket. Use it after isAuthenticated for
+// per-user limits; before that only session users are known.
+export function rateLimit(bucket: RateLimitBucket): RequestHandler {
+  const limits = buckets[bucket];
+  return async (req: any, res, next) => {
+    const now = new Date();
+    const counted: { key: string; limit: Limit }[] = [];
+    const userId = req.user?.claims?.sub;
+    if (limits.user && userId) {
+      counted.push({ key: `${bucket}:user:${userId}`, limit: limits.user });
+    }
+    if (limits.ip && req.ip) {
+      counted.push({ key: `${bucket}:ip:${req.ip}`, limit: limits.ip });
+    }
+    if (counted.length === 0) return next();
+
+    let retryAfter = 0;
+    try {
+      purgeExpiredCounters(now);
+      for (const { key, limit } of counted) {
+        const counter = await storage.hitRateLimit(key, limit.windowMs, now);
+        if (counter.count > limit.max) {
+          retryAfter = Math.max(retryAfter, 1, Math.ceil((counter.resetAt.getTime() - now.getTime()) / 1000));
+        }
+      }
+    } catch (error) {
+      // Better to let requests through than to fail them all while the database is unavailable
+      console.error("Error checking rate limit:", error);
+      return next();
+    }
+
+    if (retryAfter > 0) {
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        message: `Too many requests. Try again in ${describeWait(retryAfter)}.`,
+        retryAfter,
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,18 @@
+// Key rotation CLI: tsx server/rotateKeys.ts
+// Gives every user a new key wrapped by the current FILE_ENCRYPTION_KEY and
+// re-wraps their data keys with it. Stored files are not rewritten, and
+// uploads can go on meanwhile. Once it has run, retired keys can be removed
+// from FILE_ENCRYPTION_PREVIOUS_KEYS.
+import { rotateKeys } from "./fileEncryption";
+
+async function main() {
+  const result = await rotateKeys();
+  console.log(`Rotated keys of ${result.users} users, re-wrapped ${result.dataKeys} data keys`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
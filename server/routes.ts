@@ -3,10 +3,49 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import { Client } from "@replit/object-storage";
 import { storage } from "./storage-final";
-import { insertItemSchema, contactSchema, linkSchema, noteSchema } from "@shared/schema";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { blobStore, BlobNotFoundError } from "./blobStore";
+import { sendBlob } from "./fileResponse";
+import { registerUploadRoutes } from "./uploads";
+import { ContentBusyError, contentKey, hashBuffer, storeContent, releaseContent } from "./contentStore";
+import { registerApiTokenRoutes } from "./apiTokens";
+import { registerSessionRoutes } from "./sessions";
+import { registerTwoFactorRoutes } from "./twoFactor";
+import {
+  registerWorkspaceRoutes,
+  authorizeItem,
+  authorizeObjectKey,
+  parseWorkspaceId,
+  requireWorkspaceRole,
+  resolveItemWorkspace,
+  WorkspaceAccessError,
+} from "./workspaces";
+import {
+  registerShareRoutes,
+  resolveShareLink,
+  recordShareDownload,
+  startsDownload,
+  ShareLinkError,
+} from "./shareLinks";
+import { recordAudit, registerAuditRoutes } from "./audit";
+import { assertWithinQuota, getUsageReport, QuotaExceededError } from "./quota";
+import { rateLimit } from "./rateLimit";
+import { queueScan, resumePendingScans, scanBlock } from "./scanning";
+import { queueExtraction, resumePendingExtractions } from "./extraction";
+import { parseSearch, SearchSyntaxError } from "./search";
+import {
+  updateItemSchema,
+  contactSchema,
+  linkSchema,
+  noteSchema,
+  encryptedNoteSchema,
+  itemMetadataSchema,
+  noteEncryption,
+  ENCRYPTED_NOTE_TITLE,
+  type Item,
+  type UpdateItem,
+} from "@shared/schema";
+import { setupAuth, isAuthenticated } from "./auth";
 import { z } from "zod";
 
 // Configure multer to store files in memory
@@ -16,18 +55,45 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    // Allow all file types
+    // Allow all file types; they are scanned once stored, see scanning.ts
     cb(null, true);
   },
 });
 
-// Initialize Object Storage client
-const objectStorage = new Client();
+// Why an update would break an encrypted note, if it would. Encrypted notes
+// stay encrypted, and new ciphertext comes with a new descriptor (a reused
+// AES-GCM IV would leak the plaintext).
+function encryptedUpdateError(existing: Item, updateData: UpdateItem): string | undefined {
+  const current = noteEncryption(existing);
+  const next = noteEncryption({
+    type: updateData.type ?? existing.type,
+    metadata: updateData.metadata !== undefined ? updateData.metadata : existing.metadata,
+  });
+  if (!current) {
+    return next ? "Notes can only be encrypted when they are created" : undefined;
+  }
+  if (!next) {
+    return "Encrypted notes cannot be turned back into plain notes";
+  }
+
+  const reencrypted = next.iv !== current.iv || next.salt !== current.salt;
+  if (reencrypted !== (updateData.content !== undefined)) {
+    return "New ciphertext must be sent with a new encryption descriptor";
+  }
+  if (updateData.content !== undefined && !encryptedNoteSchema.shape.ciphertext.safeParse(updateData.content).success) {
+    return "Encrypted note content must be base64 ciphertext";
+  }
+  return undefined;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  // Per IP, and per user for session users; API token users are only known
+  // after isAuthenticated, so the stricter buckets below count them too
+  app.use("/api", rateLimit("api"));
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -40,34 +106,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all items with optional search and filtering
+  // Get all items with optional search and filtering, from the personal
+  // space or from ?workspace=<id>. Search results come most relevant first;
+  // see search.ts for the query syntax. A query that cannot be parsed is a
+  // 400 whose message says what to change.
   app.get("/api/items", isAuthenticated, async (req: any, res) => {
     try {
       const { search, type } = req.query;
       const userId = req.user.claims.sub;
+      const workspaceId = parseWorkspaceId(req.query.workspace);
+      if (workspaceId !== null) {
+        await requireWorkspaceRole(userId, workspaceId, "viewer");
+      }
+
       const items = await storage.getItems(
         userId,
-        search as string, 
-        type as string
+        search ? parseSearch(search as string) : undefined,
+        type as string,
+        workspaceId
       );
       res.json(items);
     } catch (error) {
+      if (error instanceof SearchSyntaxError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch items" });
     }
   });
 
+  // Tags in the personal space or ?workspace=<id>, most used first, for
+  // completing tag: in the search box
+  app.get("/api/tags", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = parseWorkspaceId(req.query.workspace);
+      if (workspaceId !== null) {
+        await requireWorkspaceRole(userId, workspaceId, "viewer");
+      }
+
+      res.json(await storage.getTags(userId, workspaceId));
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  // Storage used, broken down by item type and file category
+  app.get("/api/usage", isAuthenticated, async (req: any, res) => {
+    try {
+      const usage = await getUsageReport(req.user.claims.sub);
+      res.json(usage);
+    } catch (error) {
+      console.error("Error fetching usage:", error);
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
   // Get single item
-  app.get("/api/items/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/items/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const item = await storage.getItem(id);
-      
-      if (!item) {
-        return res.status(404).json({ message: "Item not found" });
-      }
-      
+      const item = await authorizeItem(req.user.claims.sub, id, "viewer");
       res.json(item);
     } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch item" });
     }
   });
@@ -76,16 +186,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/items/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updateData = req.body;
+      const userId = req.user.claims.sub;
+      
+      // Unknown fields, including userId, are stripped here
+      const parsed = updateItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid item data",
+          errors: parsed.error.issues
+        });
+      }
+      const updateData = parsed.data;
+      const existing = await authorizeItem(userId, id, "editor");
+      
+      // Metadata must match the item's type, whether either one changes
+      if (updateData.type !== undefined || updateData.metadata !== undefined) {
+        const validation = itemMetadataSchema.safeParse({
+          type: updateData.type ?? existing.type,
+          metadata: updateData.metadata !== undefined ? updateData.metadata : existing.metadata,
+        });
+        if (!validation.success) {
+          return res.status(400).json({
+            message: "Invalid item metadata",
+            errors: validation.error.issues
+          });
+        }
+        updateData.metadata = validation.data.metadata;
+      }
+
+      const encryptionError = encryptedUpdateError(existing, updateData);
+      if (encryptionError) {
+        return res.status(400).json({ message: encryptionError });
+      }
+      if (noteEncryption(existing) && updateData.title !== undefined) {
+        updateData.title = ENCRYPTED_NOTE_TITLE;
+      }
       
-      const item = await storage.updateItem(id, updateData);
+      // The scanners judged the file by its name and type, so a stored file
+      // stays a file and is scanned again when either of those changes
+      if (existing.objectKey && updateData.type !== undefined && updateData.type !== existing.type) {
+        return res.status(400).json({ message: "A file's item type cannot be changed" });
+      }
+      const rescan = existing.objectKey !== null && (
+        (updateData.fileName !== undefined && updateData.fileName !== existing.fileName)
+        || (updateData.mimeType !== undefined && updateData.mimeType !== existing.mimeType)
+      );
+      if (rescan) {
+        await storage.setScanResult(id, "pending", null);
+      }
+      
+      const item = await storage.updateItem(userId, id, updateData);
       
       if (!item) {
         return res.status(404).json({ message: "Item not found" });
       }
+      if (rescan) {
+        queueScan(item);
+      }
       
+      const changedFields = (Object.keys(updateData) as (keyof typeof updateData)[]).filter(
+        (field) => JSON.stringify(updateData[field]) !== JSON.stringify(existing[field])
+      );
+      await recordAudit(req, {
+        action: "item.update",
+        item,
+        changedFields,
+        details: item.title !== existing.title ? { previousTitle: existing.title } : undefined,
+      });
       res.json(item);
     } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update item" });
     }
   });
@@ -94,20 +266,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/items/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteItem(id);
+      const userId = req.user.claims.sub;
+      const item = await authorizeItem(userId, id, "editor");
+      const success = await storage.deleteItem(userId, id);
       
       if (!success) {
         return res.status(404).json({ message: "Item not found" });
       }
       
+      await recordAudit(req, { action: "item.delete", item });
       res.json({ success: true, message: "Item deleted successfully" });
     } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete item" });
     }
   });
 
+  // Extract a file's text for search again, e.g. after it failed
+  app.post("/api/items/:id/reindex", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const item = await authorizeItem(req.user.claims.sub, id, "editor");
+      if (item.type !== "file" || !item.objectKey) {
+        return res.status(400).json({ message: "Only files have text to index" });
+      }
+
+      await storage.setExtractionResult(id, "pending");
+      // A file still being scanned is extracted once its scan finishes
+      if (item.scanStatus !== "pending" && item.scanStatus !== "failed") {
+        queueExtraction(item);
+      }
+      res.status(202).json({ ...item, extractionStatus: "pending" });
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error re-indexing item:", error);
+      res.status(500).json({ message: "Failed to re-index item" });
+    }
+  });
+
+  // Scan a file again after its scan failed, e.g. while clamd was down
+  app.post("/api/items/:id/rescan", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const item = await authorizeItem(req.user.claims.sub, id, "editor");
+      if (item.scanStatus !== "failed") {
+        return res.status(400).json({ message: "Only files whose scan failed can be scanned again" });
+      }
+
+      await storage.setScanResult(id, "pending", null);
+      const pending = { ...item, scanStatus: "pending" as const, scanResult: null };
+      queueScan(pending);
+      res.status(202).json(pending);
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error rescanning item:", error);
+      res.status(500).json({ message: "Failed to rescan item" });
+    }
+  });
+
   // Upload file
-  app.post("/api/items/file", isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post("/api/items/file", isAuthenticated, rateLimit("upload"), upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -116,40 +340,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { tags = "[]" } = req.body;
       const parsedTags = JSON.parse(tags);
       const userId = req.user.claims.sub;
+      const workspaceId = await resolveItemWorkspace(userId, req.body.workspaceId);
+      await assertWithinQuota(userId, req.file.size);
 
-      // Generate unique filename
-      const fileKey = `${userId}/${Date.now()}-${req.file.originalname}`;
-      
-      // Upload to Object Storage
-      await objectStorage.uploadFromBytes(fileKey, req.file.buffer, {
+      // Identical files share one blob, keyed by content hash
+      const digest = hashBuffer(req.file.buffer);
+      const duplicate = await storage.getItemByObjectKey(userId, contentKey(digest.hash), workspaceId);
+      const fileKey = await storeContent({
+        userId,
+        ...digest,
         contentType: req.file.mimetype,
+        body: () => req.file.buffer,
       });
 
       const fileUrl = `/api/files/${fileKey}`;
       
-      const item = await storage.createItem(userId, {
-        title: req.file.originalname,
-        content: null,
-        type: 'file',
-        fileUrl,
-        fileName: req.file.originalname,
-        fileSize: req.file.size,
-        mimeType: req.file.mimetype,
-        tags: parsedTags,
-        metadata: JSON.stringify({ objectKey: fileKey }),
-      });
+      let item;
+      try {
+        item = await storage.createItem(userId, {
+          title: req.file.originalname,
+          content: null,
+          type: 'file',
+          fileUrl,
+          fileName: req.file.originalname,
+          fileSize: req.file.size,
+          mimeType: req.file.mimetype,
+          objectKey: fileKey,
+          workspaceId,
+          tags: parsedTags,
+          metadata: null,
+          scanStatus: 'pending',
+          extractionStatus: 'pending',
+        });
+      } catch (error) {
+        await releaseContent(fileKey).catch(() => {});
+        throw error;
+      }
 
-      res.json(item);
+      queueScan(item);
+      await recordAudit(req, { action: "item.create", item });
+      res.json({
+        ...item,
+        duplicateOf: duplicate ? { id: duplicate.id, title: duplicate.title } : null,
+      });
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ContentBusyError) {
+        res.setHeader("Retry-After", "5");
+        return res.status(503).json({ message: error.message });
+      }
       console.error("Error uploading file:", error);
       res.status(500).json({ message: "Failed to upload file" });
     }
   });
 
+  // Resumable chunked uploads
+  registerUploadRoutes(app);
+
+  // Public share links
+  registerShareRoutes(app);
+
+  // Personal API tokens
+  registerApiTokenRoutes(app);
+
+  // Signed-in sessions and remote sign-out
+  registerSessionRoutes(app);
+
+  // Two-factor authentication for local accounts
+  registerTwoFactorRoutes(app);
+
+  // Team workspaces and their members
+  registerWorkspaceRoutes(app);
+
+  // Activity log
+  registerAuditRoutes(app);
+
+  // Scans cut short by a restart
+  resumePendingScans().catch((error) => {
+    console.error("Error resuming file scans:", error);
+  });
+
+  // Text extraction cut short by a restart, or files stored before it
+  resumePendingExtractions().catch((error) => {
+    console.error("Error resuming text extraction:", error);
+  });
+
   // Create note
-  app.post("/api/items/note", isAuthenticated, async (req: any, res) => {
+  app.post("/api/items/note", isAuthenticated, rateLimit("create"), async (req: any, res) => {
     try {
-      const validation = noteSchema.safeParse(req.body);
+      // Encrypted notes arrive as ciphertext plus the descriptor to decrypt it
+      const validation = req.body?.encryption !== undefined
+        ? encryptedNoteSchema
+            .transform(({ ciphertext, encryption }) => ({
+              title: ENCRYPTED_NOTE_TITLE,
+              content: ciphertext,
+              metadata: { encryption },
+            }))
+            .safeParse(req.body)
+        : noteSchema
+            .transform((note) => ({ ...note, metadata: null }))
+            .safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({ 
           message: "Invalid note data",
@@ -157,9 +452,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const { title, content } = validation.data;
+      const { title, content, metadata } = validation.data;
       const { tags = [] } = req.body;
       const userId = req.user.claims.sub;
+      const workspaceId = await resolveItemWorkspace(userId, req.body.workspaceId);
+      await assertWithinQuota(userId, 0);
 
       const item = await storage.createItem(userId, {
         title,
@@ -169,18 +466,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileName: null,
         fileSize: null,
         mimeType: null,
+        workspaceId,
         tags,
-        metadata: null,
+        metadata,
       });
 
+      await recordAudit(req, { action: "item.create", item });
       res.json(item);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create note" });
     }
   });
 
   // Create contact
-  app.post("/api/items/contact", isAuthenticated, async (req: any, res) => {
+  app.post("/api/items/contact", isAuthenticated, rateLimit("create"), async (req: any, res) => {
     try {
       const validation = contactSchema.safeParse(req.body);
       if (!validation.success) {
@@ -193,6 +498,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const contactData = validation.data;
       const { tags = [] } = req.body;
       const userId = req.user.claims.sub;
+      const workspaceId = await resolveItemWorkspace(userId, req.body.workspaceId);
+      await assertWithinQuota(userId, 0);
 
       const item = await storage.createItem(userId, {
         title: contactData.name,
@@ -202,23 +509,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileName: null,
         fileSize: null,
         mimeType: null,
+        workspaceId,
         tags,
-        metadata: JSON.stringify({
+        metadata: {
           email: contactData.email,
           phone: contactData.phone,
           company: contactData.company,
           role: contactData.role,
-        }),
+        },
       });
 
+      await recordAudit(req, { action: "item.create", item });
       res.json(item);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create contact" });
     }
   });
 
   // Create link
-  app.post("/api/items/link", isAuthenticated, async (req: any, res) => {
+  app.post("/api/items/link", isAuthenticated, rateLimit("create"), async (req: any, res) => {
     try {
       const validation = linkSchema.safeParse(req.body);
       if (!validation.success) {
@@ -231,6 +546,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { title, url, description } = validation.data;
       const { tags = [] } = req.body;
       const userId = req.user.claims.sub;
+      const workspaceId = await resolveItemWorkspace(userId, req.body.workspaceId);
+      await assertWithinQuota(userId, 0);
 
       const item = await storage.createItem(userId, {
         title,
@@ -240,147 +557,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileName: null,
         fileSize: null,
         mimeType: null,
+        workspaceId,
         tags,
-        metadata: JSON.stringify({ url }),
+        metadata: { url },
       });
 
+      await recordAudit(req, { action: "item.create", item });
       res.json(item);
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create link" });
     }
   });
 
-  // Update item
-  app.patch("/api/items/:id", async (req, res) => {
+  // Serve files from the blob store
+  app.get('/api/files/*', (req, res, next) => {
+    // Share link visitors are authorized by the link instead of a session
+    if (req.query.share) return next();
+    return isAuthenticated(req, res, next);
+  }, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const item = await storage.updateItem(id, req.body);
+      const fileKey = req.params[0]; // Get everything after /api/files/
       
+      // Only users with an item referencing the blob, or a share link to
+      // such an item, may read it. Size, type and name come from that item.
+      const shared = req.query.share ? await resolveShareLink(req, String(req.query.share)) : undefined;
+      const item = shared
+        ? shared.item.objectKey === fileKey ? shared.item : undefined
+        : await authorizeObjectKey(req.user.claims.sub, fileKey);
       if (!item) {
-        return res.status(404).json({ message: "Item not found" });
+        return res.status(404).json({ message: "File not found" });
       }
-      
-      res.json(item);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to update item" });
-    }
-  });
 
-  // Delete item
-  app.delete("/api/items/:id", async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteItem(id);
-      
-      if (!success) {
-        return res.status(404).json({ message: "Item not found" });
+      // Nothing is served until the scanners have passed it
+      const blocked = scanBlock(item);
+      if (blocked) {
+        return res.status(blocked.status).json({ message: blocked.message });
       }
-      
-      res.json({ message: "Item deleted successfully" });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to delete item" });
-    }
-  });
-
-  // Serve files from Object Storage
-  app.get('/api/files/*', async (req, res) => {
-    try {
-      const fileKey = req.params[0]; // Get everything after /api/files/
-      
-      // Download file from Object Storage
-      const fileResponse = await objectStorage.downloadAsBytes(fileKey);
-      
-      console.log('File response type:', typeof fileResponse);
-      console.log('File response keys:', fileResponse ? Object.keys(fileResponse) : 'null');
-      console.log('File response structure:', JSON.stringify(fileResponse, null, 2).substring(0, 500));
-      
-      // Extract the actual bytes from the response
-      let fileBuffer: Buffer;
-      if (fileResponse && typeof fileResponse === 'object') {
-        if ('ok' in fileResponse && fileResponse.ok === true && 'value' in fileResponse) {
-          // Handle successful response wrapper format
-          const value = fileResponse.value;
-          console.log('Value type:', typeof value, 'Array?', Array.isArray(value));
-          
-          if (Array.isArray(value) && value.length > 0) {
-            const firstItem = value[0];
-            console.log('First item type:', typeof firstItem, 'Keys:', firstItem ? Object.keys(firstItem).slice(0, 10) : 'none');
-            
-            if (firstItem && typeof firstItem === 'object') {
-              // Check if it's a Buffer-like object with numeric keys
-              const keys = Object.keys(firstItem);
-              const isNumericKeys = keys.length > 0 && keys.every(key => !isNaN(parseInt(key)));
-              
-              if (isNumericKeys) {
-                // Handle object with numeric keys (which is a serialized Buffer)
-                console.log('Using object with numeric keys format, length:', keys.length);
-                const bytes = keys.map(key => firstItem[key]);
-                fileBuffer = Buffer.from(bytes);
-              } else if ('type' in firstItem && firstItem.type === 'Buffer' && 'data' in firstItem) {
-                // Handle nested Buffer format: {type: "Buffer", data: [numbers]}
-                console.log('Using nested Buffer format, data length:', firstItem.data.length);
-                fileBuffer = Buffer.from(firstItem.data);
-              } else {
-                throw new Error(`Unexpected object format in Object Storage response: ${JSON.stringify(firstItem).substring(0, 100)}`);
-              }
-            } else if (typeof firstItem === 'number') {
-              // Handle direct array of numbers
-              console.log('Using direct number array format, length:', value.length);
-              fileBuffer = Buffer.from(value);
-            } else {
-              throw new Error(`Unexpected value format in Object Storage response: ${JSON.stringify(firstItem).substring(0, 100)}`);
-            }
-          } else {
-            throw new Error(`Empty or invalid value array in Object Storage response`);
-          }
-        } else if ('ok' in fileResponse && fileResponse.ok === false) {
-          // Handle error response
-          throw new Error(`Object Storage error: ${fileResponse.error?.message || 'Unknown error'}`);
-        } else if ('value' in fileResponse && Array.isArray(fileResponse.value)) {
-          // Handle direct value format without ok wrapper
-          const bytes = fileResponse.value;
-          if (bytes.length > 0 && bytes[0] && typeof bytes[0] === 'object' && 'data' in bytes[0]) {
-            fileBuffer = Buffer.from(bytes[0].data);
-          } else {
-            fileBuffer = Buffer.from(bytes);
-          }
-        } else if (Buffer.isBuffer(fileResponse)) {
-          fileBuffer = fileResponse;
-        } else {
-          throw new Error(`Unexpected Object Storage response format: ${JSON.stringify(fileResponse).substring(0, 200)}`);
-        }
-      } else if (Buffer.isBuffer(fileResponse)) {
-        fileBuffer = fileResponse;
-      } else {
-        throw new Error('Unexpected response format from Object Storage');
+      if (shared) {
+        await recordShareDownload(req, shared.link, item);
       }
       
-      // Get file metadata from database to set proper content type
-      const item = await storage.getItemByObjectKey(fileKey);
-      
-      if (item && item.mimeType) {
-        res.setHeader('Content-Type', item.mimeType);
+      const size = item.fileSize
+        ?? (await storage.getBlob(fileKey))?.size
+        ?? (await blobStore.head(fileKey))?.size;
+      if (size == null) {
+        return res.status(404).json({ message: "File not found" });
       }
       
-      // Set proper headers based on query parameter
-      const action = req.query.action || 'preview'; // 'download' or 'preview'
-      
-      if (item && item.fileName) {
-        if (action === 'download') {
-          res.setHeader('Content-Disposition', `attachment; filename="${item.fileName}"`);
-        } else {
-          res.setHeader('Content-Disposition', `inline; filename="${item.fileName}"`);
-        }
+      // 'download' or 'preview'
+      const action = req.query.action || 'preview';
+      if (action === 'download' && !req.query.share && startsDownload(req)) {
+        await recordAudit(req, { action: "item.download", item });
       }
       
-      // Set additional headers for better browser handling
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Content-Length', fileBuffer.length.toString());
-      
-      // Send the actual file buffer, not JSON
-      res.end(fileBuffer);
+      await sendBlob(req, res, {
+        objectKey: fileKey,
+        size,
+        lastModified: item.createdAt,
+        contentType: item.mimeType,
+        fileName: item.fileName,
+        disposition: action === 'download' ? 'attachment' : 'inline',
+      });
     } catch (error) {
-      console.error("Error serving file:", error);
+      if (error instanceof ShareLinkError || error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (!(error instanceof BlobNotFoundError)) {
+        console.error("Error serving file:", error);
+      }
       res.status(404).json({ message: "File not found" });
     }
   });
@@ -0,0 +1,290 @@
+import path from "path";
+import type { Readable } from "stream";
+import type { Item } from "@shared/schema";
+import { storage } from "./storage-final";
+import { openContent } from "./contentStore";
+import { clamdOptionsFromEnv, scanWithClamd } from "./clamd";
+import { queueExtraction } from "./extraction";
+
+// Uploaded files are scanned after they are stored. New file items start out
+// "pending" and cannot be downloaded until every scanner has passed them
+// ("clean"); a finding from any scanner moves them to "quarantined", and
+// scans that keep failing leave them "failed" until rescanned. A file
+// whose name or MIME type is edited goes back to "pending" and is scanned
+// again. Files stored before scanning was added have no status and are
+// served as before.
+//
+// SCANNERS lists the scanners to run, in order. The default is
+// "blocklist,mime", plus "clamd" when CLAMD_SOCKET or CLAMD_HOST is set.
+
+// How many leading bytes scanners get for sniffing the file type; enough to
+// reach the PE header of Windows programs
+const HEAD_SIZE = 4096;
+
+export interface ScanTarget {
+  fileName: string;
+  mimeType: string | null;
+  size: number;
+  // The file's first bytes, decrypted
+  head: Buffer;
+  // The whole file, decrypted
+  open(): Promise<Readable>;
+}
+
+export interface Scanner {
+  name: string;
+  // Why the file should be quarantined, or null if nothing was found.
+  // Throw if the file could not be scanned; it is then tried again later.
+  scan(file: ScanTarget): Promise<string | null>;
+}
+
+function extensionOf(fileName: string): string {
+  return path.extname(fileName).slice(1).toLowerCase();
+}
+
+function list(value: string): string[] {
+  return value.split(",").map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+}
+
+// Programs and scripts that run when opened on a common desktop
+const BLOCKED_EXTENSIONS = new Set(list(process.env.SCAN_BLOCKED_EXTENSIONS
+  ?? "exe,dll,com,scr,pif,cpl,msi,msp,bat,cmd,vbs,vbe,jse,wsf,wsh,hta,ps1,lnk,reg,jar"));
+const BLOCKED_MIME_TYPES = new Set(list(process.env.SCAN_BLOCKED_MIME_TYPES
+  ?? "application/x-msdownload,application/x-msdos-program,application/x-dosexec,"
+    + "application/vnd.microsoft.portable-executable,application/x-msi,application/hta,application/java-archive"));
+
+const blocklistScanner: Scanner = {
+  name: "blocklist",
+  async scan(file) {
+    const extension = extensionOf(file.fileName);
+    if (BLOCKED_EXTENSIONS.has(extension)) {
+      return `.${extension} files are not allowed`;
+    }
+    if (file.mimeType && BLOCKED_MIME_TYPES.has(file.mimeType.toLowerCase())) {
+      return `${file.mimeType} files are not allowed`;
+    }
+    return null;
+  },
+};
+
+type FileKind = "pdf" | "png" | "jpeg" | "gif" | "zip" | "gzip" | "program";
+
+const KIND_LABELS: Record<FileKind, string> = {
+  pdf: "a PDF",
+  png: "a PNG image",
+  jpeg: "a JPEG image",
+  gif: "a GIF image",
+  zip: "a ZIP archive",
+  gzip: "a gzip archive",
+  program: "a program",
+};
+
+const MAGIC_NUMBERS: { kind: FileKind; bytes: Buffer }[] = [
+  { kind: "pdf", bytes: Buffer.from("%PDF-") },
+  { kind: "png", bytes: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { kind: "jpeg", bytes: Buffer.from([0xff, 0xd8, 0xff]) },
+  { kind: "gif", bytes: Buffer.from("GIF8") },
+  { kind: "zip", bytes: Buffer.from("PK\x03\x04") },
+  { kind: "zip", bytes: Buffer.from("PK\x05\x06") }, // Empty archive
+  { kind: "gzip", bytes: Buffer.from([0x1f, 0x8b]) },
+  { kind: "program", bytes: Buffer.from("\x7fELF") }, // Linux
+  { kind: "program", bytes: Buffer.from([0xcf, 0xfa, 0xed, 0xfe]) }, // macOS, 64-bit
+];
+
+// Extensions and MIME types whose contents can be recognized; Office and
+// OpenDocument files are ZIP archives
+const KIND_BY_EXTENSION: Record<string, FileKind> = {
+  pdf: "pdf",
+  png: "png",
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  gif: "gif",
+  zip: "zip",
+  docx: "zip",
+  xlsx: "zip",
+  pptx: "zip",
+  odt: "zip",
+  ods: "zip",
+  odp: "zip",
+  epub: "zip",
+  gz: "gzip",
+  tgz: "gzip",
+};
+
+const KIND_BY_MIME_TYPE: Record<string, FileKind> = {
+  "application/pdf": "pdf",
+  "image/png": "png",
+  "image/jpeg": "jpeg",
+  "image/gif": "gif",
+  "application/zip": "zip",
+  "application/gzip": "gzip",
+  "application/x-gzip": "gzip",
+};
+
+// Plenty of text files start with "MZ" too. A Windows program's DOS header
+// also points to its PE header, from e_lfanew at 0x3C.
+function isWindowsProgram(head: Buffer): boolean {
+  if (head.length < 0x40 || head.toString("latin1", 0, 2) !== "MZ") return false;
+  const offset = head.readUInt32LE(0x3c);
+  return offset + 4 <= head.length && head.toString("latin1", offset, offset + 4) === "PE\0\0";
+}
+
+function sniff(head: Buffer): FileKind | undefined {
+  if (isWindowsProgram(head)) return "program";
+  return MAGIC_NUMBERS.find(({ bytes }) => head.subarray(0, bytes.length).equals(bytes))?.kind;
+}
+
+// Catches files whose name or declared type misrepresents their content,
+// like a program renamed to invoice.pdf
+const mimeMismatchScanner: Scanner = {
+  name: "mime",
+  async scan(file) {
+    if (file.size === 0) return null;
+    const actual = sniff(file.head);
+    const extension = extensionOf(file.fileName);
+
+    if (actual === "program" && !BLOCKED_EXTENSIONS.has(extension)) {
+      return `${file.fileName} is a program`;
+    }
+    const named = KIND_BY_EXTENSION[extension];
+    if (named && named !== actual) {
+      return `${file.fileName} is not ${KIND_LABELS[named]}`;
+    }
+    const declared = file.mimeType ? KIND_BY_MIME_TYPE[file.mimeType.toLowerCase()] : undefined;
+    if (declared && declared !== actual) {
+      return `Declared as ${file.mimeType} but is not ${KIND_LABELS[declared]}`;
+    }
+    return null;
+  },
+};
+
+function createClamdScanner(): Scanner {
+  const options = clamdOptionsFromEnv();
+  if (!options) {
+    throw new Error("The clamd scanner needs CLAMD_SOCKET or CLAMD_HOST");
+  }
+  return {
+    name: "clamd",
+    async scan(file) {
+      const signature = await scanWithClamd(options, await file.open());
+      return signature ? `Malware detected: ${signature}` : null;
+    },
+  };
+}
+
+function createScanners(): Scanner[] {
+  const configured = process.env.SCANNERS
+    ?? ["blocklist", "mime", ...(clamdOptionsFromEnv() ? ["clamd"] : [])].join(",");
+  return list(configured).map((name) => {
+    switch (name) {
+      case "blocklist":
+        return blocklistScanner;
+      case "mime":
+        return mimeMismatchScanner;
+      case "clamd":
+        return createClamdScanner();
+      default:
+        throw new Error(`Unknown scanner: ${name}`);
+    }
+  });
+}
+
+const scanners = createScanners();
+
+async function readHead(objectKey: string, size: number): Promise<Buffer> {
+  if (size === 0) return Buffer.alloc(0);
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openContent(objectKey, { start: 0, end: Math.min(size, HEAD_SIZE) - 1 })) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Run every scanner over a file item and record the verdict, then queue the
+// file for text extraction
+export async function scanFile(item: Item): Promise<void> {
+  const objectKey = item.objectKey;
+  if (item.type !== "file" || !objectKey) return;
+
+  const size = item.fileSize ?? 0;
+  const target: ScanTarget = {
+    fileName: item.fileName ?? item.title,
+    mimeType: item.mimeType,
+    size,
+    head: await readHead(objectKey, size),
+    open: () => openContent(objectKey),
+  };
+
+  for (const scanner of scanners) {
+    const finding = await scanner.scan(target);
+    if (finding) {
+      console.warn(`Quarantined item ${item.id} (${scanner.name}): ${finding}`);
+      await storage.setScanResult(item.id, "quarantined", finding);
+      queueExtraction({ ...item, scanStatus: "quarantined", scanResult: finding });
+      return;
+    }
+  }
+  await storage.setScanResult(item.id, "clean", null);
+  queueExtraction({ ...item, scanStatus: "clean", scanResult: null });
+}
+
+// Scans run one at a time in the background, so uploads return right away
+let queue = Promise.resolve();
+
+// A scan that throws, e.g. while clamd is down, is tried again after each of
+// these delays. After the last one the file is marked "failed" until it is
+// rescanned, or the server restarts.
+const SCAN_RETRY_DELAYS_MS = [30_000, 5 * 60_000, 30 * 60_000];
+const SCAN_FAILED_RESULT = "The file could not be scanned. Rescan it to try again.";
+
+export function queueScan(item: Item, attempt = 0): void {
+  queue = queue
+    .then(() => scanFile(item))
+    .catch(async (error) => {
+      if (attempt < SCAN_RETRY_DELAYS_MS.length) {
+        console.error(`Error scanning item ${item.id}; trying again later:`, error);
+        setTimeout(() => retryScan(item.id, attempt + 1), SCAN_RETRY_DELAYS_MS[attempt]).unref();
+        return;
+      }
+      console.error(`Error scanning item ${item.id}; marking it failed:`, error);
+      try {
+        await storage.setScanResult(item.id, "failed", SCAN_FAILED_RESULT);
+      } catch (statusError) {
+        console.error(`Error marking the scan of item ${item.id} failed:`, statusError);
+      }
+    });
+}
+
+// Scans the item as it is now, unless it was deleted, renamed and queued
+// again, or rescanned in the meantime
+async function retryScan(id: number, attempt: number): Promise<void> {
+  try {
+    const item = (await storage.getItemsByScanStatus("pending")).find((pending) => pending.id === id);
+    if (item) {
+      queueScan(item, attempt);
+    }
+  } catch (error) {
+    console.error(`Error retrying the scan of item ${id}:`, error);
+  }
+}
+
+// Picks up scans that were interrupted by a restart or failed, e.g. while clamd was down
+export async function resumePendingScans(): Promise<void> {
+  const pending = await storage.getItemsByScanStatus("pending");
+  const failed = await storage.getItemsByScanStatus("failed");
+  [...pending, ...failed].forEach((item) => queueScan(item));
+}
+
+// Why a file cannot be downloaded yet, if it cannot
+export function scanBlock(item: Item): { status: number; message: string } | undefined {
+  if (item.scanStatus === "pending") {
+    return { status: 409, message: "This file is still being scanned" };
+  }
+  if (item.scanStatus === "quarantined") {
+    return { status: 403, message: "This file has been quarantined" };
+  }
+  if (item.scanStatus === "failed") {
+    return { status: 503, message: "This file could not be scanned" };
+  }
+  return undefined;
+}
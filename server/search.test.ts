@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Item } from "@shared/schema";
+import { hasTextTerms, parseSearch, searchScore, SearchSyntaxError } from "./search";
+
+function item(changes: Partial<Item>): Item {
+  return {
+    id: 1,
+    userId: "user",
+    workspaceId: null,
+    title: "",
+    content: null,
+    type: "note",
+    fileUrl: null,
+    fileName: null,
+    fileSize: null,
+    mimeType: null,
+    objectKey: null,
+    tags: [],
+    metadata: null,
+    createdAt: new Date("2025-03-01T12:00:00Z"),
+    updatedAt: new Date("2025-03-01T12:00:00Z"),
+    ...changes,
+  } as Item;
+}
+
+describe("parseSearch", () => {
+  it("reads words, with the last one as a prefix while typing", () => {
+    assert.deepEqual(parseSearch("quarterly rep"), [[
+      { kind: "word", text: "quarterly", negated: false },
+      { kind: "prefix", text: "rep", negated: false },
+    ]]);
+    assert.deepEqual(parseSearch("quarterly rep "), [[
+      { kind: "word", text: "quarterly", negated: false },
+      { kind: "word", text: "rep", negated: false },
+    ]]);
+  });
+
+  it("reads phrases, negations and explicit prefixes", () => {
+    assert.deepEqual(parseSearch('"board meeting" -draft plan* '), [[
+      { kind: "phrase", text: "board meeting", negated: false },
+      { kind: "word", text: "draft", negated: true },
+      { kind: "prefix", text: "plan", negated: false },
+    ]]);
+  });
+
+  it("splits clauses at OR", () => {
+    const query = parseSearch("alpha OR beta gamma ");
+    assert.equal(query.length, 2);
+    assert.deepEqual(query[1].map((term) => term.kind === "filter" ? term.filter.field : term.text), ["beta", "gamma"]);
+    assert.deepEqual(parseSearch("OR alpha "), [[{ kind: "word", text: "alpha", negated: false }]]);
+  });
+
+  it("drops punctuation on its own", () => {
+    assert.deepEqual(parseSearch("- & "), []);
+    assert.deepEqual(parseSearch('"" '), []);
+  });
+
+  it("reads filters", () => {
+    assert.deepEqual(parseSearch('type:Contacts tag:"big client" -ext:.PDF company:acme '), [[
+      { kind: "filter", filter: { field: "type", value: "contact" }, negated: false },
+      { kind: "filter", filter: { field: "tag", value: "big client" }, negated: false },
+      { kind: "filter", filter: { field: "ext", value: "pdf" }, negated: true },
+      { kind: "filter", filter: { field: "company", value: "acme" }, negated: false },
+    ]]);
+  });
+
+  it("reads sizes and dates", () => {
+    assert.deepEqual(parseSearch("size:>1.5kb size:<=2MB after:2025-01-31 "), [[
+      { kind: "filter", filter: { field: "size", comparison: ">", bytes: 1536 }, negated: false },
+      { kind: "filter", filter: { field: "size", comparison: "<=", bytes: 2 * 1024 * 1024 }, negated: false },
+      { kind: "filter", filter: { field: "after", value: new Date(Date.UTC(2025, 0, 31)) }, negated: false },
+    ]]);
+  });
+
+  it("takes URLs for text, not filters", () => {
+    assert.deepEqual(parseSearch("https://example.com "), [[
+      { kind: "word", text: "https://example.com", negated: false },
+    ]]);
+  });
+
+  it("ignores a filter still being typed", () => {
+    assert.deepEqual(parseSearch("report type:"), [[{ kind: "word", text: "report", negated: false }]]);
+  });
+
+  it("explains what is wrong with a query", () => {
+    const cases: [string, RegExp][] = [
+      ["colour:red", /Unknown filter "colour:".*put it in quotes: "colour:red"/],
+      ["type:memo", /Unknown type "memo"/],
+      ["type: notes", /type: needs a value right after the colon/],
+      ["size:5mb", /needs >, >=, < or <= before the size, like size:>5mb/],
+      ["size:big", /size: needs a size/],
+      ["before:2025-02-30", /before: needs a date like before:2025-01-31/],
+      ["after:yesterday", /after: needs a date/],
+    ];
+    for (const [input, message] of cases) {
+      assert.throws(() => parseSearch(input), (error: unknown) =>
+        error instanceof SearchSyntaxError && message.test(error.message), input);
+    }
+  });
+});
+
+describe("hasTextTerms", () => {
+  it("tells full-text queries from filters only", () => {
+    assert.equal(hasTextTerms(parseSearch("type:note ")), false);
+    assert.equal(hasTextTerms(parseSearch("type:note OR plan ")), true);
+  });
+});
+
+describe("searchScore", () => {
+  const report = item({
+    type: "file",
+    title: "Quarterly report",
+    fileName: "q3-report.pdf",
+    fileSize: 2048,
+    tags: ["Finance"],
+  });
+
+  it("ranks title matches above other fields", () => {
+    const byTitle = searchScore(parseSearch("quarterly "), report);
+    const byFileName = searchScore(parseSearch("q3 "), report);
+    assert.ok(byTitle > byFileName && byFileName > 0);
+  });
+
+  it("matches extracted text", () => {
+    assert.equal(searchScore(parseSearch("revenue "), report), 0);
+    assert.ok(searchScore(parseSearch("revenue "), report, "Revenue grew 10%") > 0);
+  });
+
+  it("applies filters and negations", () => {
+    assert.ok(searchScore(parseSearch("tag:finance ext:pdf size:>1kb "), report) > 0);
+    assert.equal(searchScore(parseSearch("type:note "), report), 0);
+    assert.equal(searchScore(parseSearch("report -quarterly "), report), 0);
+    assert.ok(searchScore(parseSearch("before:2025-03-02 after:2025-02-28 "), report) > 0);
+    assert.equal(searchScore(parseSearch("after:2025-03-01 "), report), 0);
+  });
+
+  it("matches when any clause does", () => {
+    assert.ok(searchScore(parseSearch("type:note OR quarterly "), report) > 0);
+  });
+});
@@ -0,0 +1,381 @@
+import { and, eq, gt, gte, ilike, lt, lte, not, or, sql, type SQL } from "drizzle-orm";
+import { items, noteEncryption, type Item } from "@shared/schema";
+
+// Item search: full-text terms and field filters. The query syntax, in the
+// search box and GET /api/items?search=:
+//   budget review          items with both words, stemmed ("reviews" matches too)
+//   "budget review"        the words next to each other, in order
+//   budg*                  words starting with "budg"
+//   -draft                 items without the word; also negates a filter
+//   invoice OR receipt
+//   type:contact           file, note, contact or link
+//   tag:vendor             items tagged "vendor"
+//   title:plan, filename:, company:, email:, role:, url:
+//                          the field contains the text
+//   ext:pdf                files with the extension
+//   before:2025-01-01      created before the day; after: from the day after (UTC)
+//   size:>5mb              file size compared with >, >=, < or <=, in b, kb, mb or gb
+// Filter values with spaces are quoted: company:"Acme Corp". The last word
+// is also matched as a prefix unless followed by a space, so results keep up
+// while typing in the search box.
+
+export interface TextTerm {
+  kind: "word" | "phrase" | "prefix";
+  text: string;
+  negated: boolean;
+}
+
+export const itemTypes = ["file", "note", "contact", "link"] as const;
+
+// Filters matching part of a text field
+type ContainsField = "title" | "filename" | "company" | "email" | "role" | "url";
+
+export type SizeComparison = ">" | ">=" | "<" | "<=";
+
+export type SearchFilter =
+  | { field: "type"; value: typeof itemTypes[number] }
+  | { field: "tag" | "ext"; value: string }
+  | { field: ContainsField; value: string }
+  | { field: "before" | "after"; value: Date }
+  | { field: "size"; comparison: SizeComparison; bytes: number };
+
+export type SearchField = SearchFilter["field"];
+
+// Every filter, with an example for error messages
+const FILTER_EXAMPLES: Record<SearchField, string> = {
+  type: "type:contact",
+  tag: "tag:vendor",
+  title: "title:plan",
+  filename: "filename:report",
+  company: "company:acme",
+  email: "email:@acme.com",
+  role: "role:manager",
+  url: "url:github.com",
+  ext: "ext:pdf",
+  before: "before:2025-01-31",
+  after: "after:2025-01-31",
+  size: "size:>5mb",
+};
+
+export const searchFields = Object.keys(FILTER_EXAMPLES) as SearchField[];
+
+export interface FilterTerm {
+  kind: "filter";
+  filter: SearchFilter;
+  negated: boolean;
+}
+
+export type SearchTerm = TextTerm | FilterTerm;
+
+// Clauses joined by OR, each a list of terms that must all match
+export type SearchQuery = SearchTerm[][];
+
+// Most tags suggested for tag:, see IStorage.getTags
+export const TAG_LIMIT = 200;
+
+// A query that cannot be parsed; the message says what to change
+export class SearchSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchSyntaxError";
+  }
+}
+
+// An optional "-", an optional "field:" (not "http://"), then a quoted or bare value
+const TOKEN_PATTERN = /(-?)(?:([A-Za-z]+):(?!\/\/))?(?:"([^"]*)"?|(\S*))/g;
+// Letters and digits of any script; built with RegExp() because the
+// compile target predates the u flag in literals
+const WORD_CHAR = new RegExp("[\\p{L}\\p{N}]", "u");
+const NON_WORD_CHARS = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const SIZE_PATTERN = /^(>=|<=|>|<)?(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/i;
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(field: string, value: string): Date {
+  const match = DATE_PATTERN.exec(value);
+  const date = match && new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]));
+  // Date.UTC rolls 2025-02-30 over into March
+  if (!date || date.getUTCMonth() !== +match![2] - 1 || date.getUTCDate() !== +match![3]) {
+    throw new SearchSyntaxError(`${field}: needs a date like ${FILTER_EXAMPLES[field as SearchField]}, not "${value}"`);
+  }
+  return date;
+}
+
+function parseFilter(field: string, value: string): SearchFilter {
+  switch (field) {
+    case "type": {
+      // "contacts" reads as naturally as "contact"
+      const type = itemTypes.find((t) => t === value.toLowerCase() || `${t}s` === value.toLowerCase());
+      if (!type) {
+        throw new SearchSyntaxError(`Unknown type "${value}". Use type:${itemTypes.join(", type:")}`);
+      }
+      return { field, value: type };
+    }
+    case "tag":
+      return { field, value };
+    case "ext":
+      return { field, value: value.replace(/^\./, "").toLowerCase() };
+    case "before":
+    case "after":
+      return { field, value: parseDate(field, value) };
+    case "size": {
+      const match = SIZE_PATTERN.exec(value);
+      if (!match) {
+        throw new SearchSyntaxError(`size: needs a size like size:>5mb or size:<=100kb, not "${value}"`);
+      }
+      if (!match[1]) {
+        throw new SearchSyntaxError(`size: needs >, >=, < or <= before the size, like size:>${value}`);
+      }
+      const unit = SIZE_UNITS[(match[3] ?? "b").toLowerCase()];
+      return { field, comparison: match[1] as SizeComparison, bytes: Math.round(parseFloat(match[2]) * unit) };
+    }
+    default:
+      return { field: field as ContainsField, value };
+  }
+}
+
+// Throws SearchSyntaxError for unknown filters and values they cannot take
+export function parseSearch(input: string): SearchQuery {
+  const clauses: SearchQuery = [[]];
+  const tokens = Array.from(input.matchAll(TOKEN_PATTERN)).filter((token) => token[0] !== "");
+
+  tokens.forEach((token, index) => {
+    const [source, negation, rawField, quoted, bare] = token;
+    const clause = clauses[clauses.length - 1];
+    const negated = negation === "-";
+    const isLast = index === tokens.length - 1 && !/\s$/.test(input);
+
+    if (rawField !== undefined) {
+      const field = rawField.toLowerCase() as SearchField;
+      if (!searchFields.includes(field)) {
+        throw new SearchSyntaxError(
+          `Unknown filter "${rawField}:". Filters are ${searchFields.map((f) => `${f}:`).join(", ")}.` +
+            ` To search for the text, put it in quotes: "${source.replace(/^-/, "")}"`,
+        );
+      }
+      const value = (quoted ?? bare).trim();
+      if (!value) {
+        // Still being typed
+        if (isLast) return;
+        throw new SearchSyntaxError(`${field}: needs a value right after the colon, like ${FILTER_EXAMPLES[field]}`);
+      }
+      clause.push({ kind: "filter", filter: parseFilter(field, value), negated });
+      return;
+    }
+
+    if (quoted !== undefined) {
+      if (WORD_CHAR.test(quoted)) {
+        clause.push({ kind: "phrase", text: quoted.trim(), negated });
+      }
+      return;
+    }
+    if (bare === "OR" && !negated) {
+      if (clause.length > 0) clauses.push([]);
+      return;
+    }
+
+    const prefix = bare.endsWith("*") || (isLast && !negated);
+    const text = bare.replace(/\*+$/, "");
+    // Punctuation on its own is not indexed
+    if (WORD_CHAR.test(text)) {
+      clause.push({ kind: prefix ? "prefix" : "word", text, negated });
+    }
+  });
+
+  return clauses.filter((clause) => clause.length > 0);
+}
+
+function isTextTerm(term: SearchTerm): term is TextTerm {
+  return term.kind !== "filter";
+}
+
+// Whether the query has full-text terms, as opposed to only filters
+export function hasTextTerms(query: SearchQuery): boolean {
+  return query.some((clause) => clause.some(isTextTerm));
+}
+
+// The full-text index of items; not part of the drizzle table, see shared/schema.ts
+const searchVector = sql`${items}.search_vector`;
+
+function termQuery(term: TextTerm): SQL {
+  const query =
+    term.kind === "phrase" ? sql`phraseto_tsquery('english', ${term.text})`
+    : term.kind === "prefix" ? sql`to_tsquery('english', quote_literal(${term.text}) || ':*')`
+    : sql`plainto_tsquery('english', ${term.text})`;
+  return term.negated ? sql`(!! ${query})` : query;
+}
+
+// % and _ in filter values match themselves
+function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function filterCondition(filter: SearchFilter): SQL {
+  switch (filter.field) {
+    case "type":
+      return eq(items.type, filter.value);
+    case "tag":
+      return sql`exists (select 1 from unnest(${items.tags}) as tag where lower(tag) = lower(${filter.value}))`;
+    case "ext":
+      return ilike(items.fileName, `%.${filter.value.replace(/[\\%_]/g, "\\$&")}`);
+    case "title":
+      return ilike(items.title, containsPattern(filter.value));
+    case "filename":
+      return ilike(items.fileName, containsPattern(filter.value));
+    case "company":
+    case "email":
+    case "role":
+    case "url":
+      return ilike(sql`${items.metadata}->>${filter.field}`, containsPattern(filter.value));
+    case "before":
+      return lt(items.createdAt, filter.value);
+    case "after":
+      return gte(items.createdAt, new Date(filter.value.getTime() + DAY_MS));
+    case "size": {
+      const compare = { ">": gt, ">=": gte, "<": lt, "<=": lte }[filter.comparison];
+      return compare(items.fileSize, filter.bytes);
+    }
+  }
+}
+
+function termCondition(term: SearchTerm): SQL {
+  if (isTextTerm(term)) {
+    // Encrypted notes hold only ciphertext, so text never matches them
+    return sql`(${searchVector} @@ ${termQuery(term)} and ${items.metadata}->'encryption' is null)`;
+  }
+  const condition = filterCondition(term.filter);
+  // Items without the field, like notes for size:, match a negated filter
+  return term.negated ? not(sql`coalesce(${condition}, false)`) : condition;
+}
+
+// The query as a condition on items
+export function searchCondition(query: SearchQuery): SQL {
+  return or(...query.map((clause) => and(...clause.map(termCondition))))!;
+}
+
+// Relevance of an item to the full-text terms of the query, for ordering
+export function searchRank(query: SearchQuery): SQL {
+  const clauses = query
+    .map((clause) => clause.filter(isTextTerm))
+    .filter((clause) => clause.length > 0)
+    .map((clause) => sql`(${sql.join(clause.map(termQuery), sql` && `)})`);
+  return sql`ts_rank(${searchVector}, (${sql.join(clauses, sql` || `)}))`;
+}
+
+// In-memory counterpart for MemStorage: no stemming, but the same syntax and
+// field weights as the index
+
+interface WeightedText {
+  text: string | null | undefined;
+  weight: number;
+}
+
+// Title, tags, content, extracted text, file name and metadata, as in the
+// search_vector trigger
+const SEARCH_WEIGHTS = { title: 1, tags: 0.4, content: 0.2, extractedText: 0.2, fileName: 0.1, metadata: 0.1 };
+
+// String values anywhere in a JSON value, like jsonb_to_tsvector(..., '["string"]')
+function jsonStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (value && typeof value === "object") return Object.values(value).flatMap(jsonStrings);
+  return [];
+}
+
+// The fields the search_vector trigger indexes, with its weights
+function weightedFields(item: Item, extractedText: string | undefined): WeightedText[] {
+  return [
+    { text: item.title, weight: SEARCH_WEIGHTS.title },
+    { text: item.tags?.join(" "), weight: SEARCH_WEIGHTS.tags },
+    { text: item.content, weight: SEARCH_WEIGHTS.content },
+    { text: extractedText, weight: SEARCH_WEIGHTS.extractedText },
+    { text: item.fileName, weight: SEARCH_WEIGHTS.fileName },
+    { text: jsonStrings(item.metadata).join(" "), weight: SEARCH_WEIGHTS.metadata },
+  ];
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(NON_WORD_CHARS).filter(Boolean);
+}
+
+function termMatches(term: TextTerm, fieldWords: string[]): boolean {
+  const termWords = words(term.text);
+  if (termWords.length === 0) return false;
+  if (term.kind === "prefix") {
+    // Like to_tsquery, every word of the term must match, the last one as a prefix
+    return termWords.every((word, i) =>
+      i === termWords.length - 1
+        ? fieldWords.some((fieldWord) => fieldWord.startsWith(word))
+        : fieldWords.includes(word));
+  }
+  if (term.kind === "word") {
+    return termWords.every((word) => fieldWords.includes(word));
+  }
+  return fieldWords.some((_, start) => termWords.every((word, i) => fieldWords[start + i] === word));
+}
+
+function contains(value: unknown, text: string): boolean {
+  return typeof value === "string" && value.toLowerCase().includes(text.toLowerCase());
+}
+
+function filterMatches(filter: SearchFilter, item: Item): boolean {
+  const metadata = (item.metadata ?? {}) as Record<string, unknown>;
+  switch (filter.field) {
+    case "type":
+      return item.type === filter.value;
+    case "tag":
+      return (item.tags ?? []).some((tag) => tag.toLowerCase() === filter.value.toLowerCase());
+    case "ext":
+      return !!item.fileName?.toLowerCase().endsWith(`.${filter.value}`);
+    case "title":
+      return contains(item.title, filter.value);
+    case "filename":
+      return contains(item.fileName, filter.value);
+    case "company":
+    case "email":
+    case "role":
+    case "url":
+      return contains(metadata[filter.field], filter.value);
+    case "before":
+      return item.createdAt < filter.value;
+    case "after":
+      return item.createdAt.getTime() >= filter.value.getTime() + DAY_MS;
+    case "size": {
+      const size = item.fileSize;
+      if (size === null) return false;
+      const { comparison, bytes } = filter;
+      return comparison === ">" ? size > bytes
+        : comparison === ">=" ? size >= bytes
+        : comparison === "<" ? size < bytes
+        : size <= bytes;
+    }
+  }
+}
+
+// A relevance score above zero when the item matches the query, else zero.
+// extractedText is the item's items.extracted_text.
+export function searchScore(query: SearchQuery, item: Item, extractedText?: string): number {
+  // Encrypted notes hold only ciphertext, so full-text terms never match them
+  const searchable = !noteEncryption(item);
+  const fieldWords = weightedFields(item, extractedText).map(({ text, weight }) => ({ words: words(text ?? ""), weight }));
+  let best = 0;
+  for (const clause of query) {
+    let score = 0;
+    const matched = clause.every((term) => {
+      if (!isTextTerm(term)) {
+        return filterMatches(term.filter, item) !== term.negated;
+      }
+      if (!searchable) return false;
+      const weight = fieldWords
+        .filter((field) => termMatches(term, field.words))
+        .reduce((sum, field) => sum + field.weight, 0);
+      if (term.negated) return weight === 0;
+      score += weight;
+      return weight > 0;
+    });
+    // A clause of only negated terms or filters still matches
+    if (matched) best = Math.max(best, score || Number.EPSILON);
+  }
+  return best;
+}
@@ -0,0 +1,178 @@
+import type { Express, Request, RequestHandler } from "express";
+import type { UserSession } from "@shared/schema";
+import { storage } from "./storage-final";
+import { getSessionStore, isAuthenticated, type SessionUser } from "./auth";
+import { recordAudit } from "./audit";
+
+// Signed-in browser sessions:
+//   GET    /api/sessions        the user's active sessions
+//   DELETE /api/sessions/:sid   sign out one session, e.g. on a lost laptop
+//   DELETE /api/sessions        sign out everywhere, this browser included
+// The session store keeps the session itself; user_sessions records whose
+// it is and which device it is on.
+
+// lastSeenAt is only rewritten when it is older than this, to spare a write per request
+const LAST_SEEN_PRECISION_MS = 5 * 60 * 1000;
+
+// "Firefox on Windows" and the like; good enough to recognize your own devices
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : /^curl\//.test(userAgent) ? "curl"
+    : undefined;
+  // iOS and Android before macOS and Linux, whose names their user agents include
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Macintosh|Mac OS X/.test(userAgent) ? "macOS"
+    : /CrOS/.test(userAgent) ? "ChromeOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : undefined;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+}
+
+// Record the request's session as the signed-in user's
+export async function recordSession(req: any): Promise<void> {
+  const user = req.user as SessionUser;
+  const userAgent = req.get("user-agent");
+  const now = new Date();
+  await storage.upsertUserSession({
+    sid: req.sessionID,
+    userId: user.claims.sub,
+    device: describeDevice(userAgent),
+    userAgent: userAgent ?? null,
+    ipAddress: req.ip ?? null,
+    lastSeenAt: now,
+  });
+  req.session.lastSeenAt = now.getTime();
+}
+
+// Keeps last-seen times current, and picks up sessions signed in before they were recorded
+export const trackSession: RequestHandler = (req: any, res, next) => {
+  // Sessions waiting for a second factor are recorded once it is given
+  if (!req.user || req.user.twoFactorPending || !req.session) return next();
+  const lastSeenAt: number | undefined = req.session.lastSeenAt;
+  if (lastSeenAt && Date.now() - lastSeenAt < LAST_SEEN_PRECISION_MS) return next();
+
+  recordSession(req).then(() => next(), (error) => {
+    console.error("Error recording session:", error);
+    next();
+  });
+};
+
+// Drop the row of a session that is being signed out normally
+export async function forgetSession(sid: string): Promise<void> {
+  await storage.deleteUserSession(sid);
+}
+
+function sessionExists(sid: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    getSessionStore().get(sid, (error, session) => (error ? reject(error) : resolve(!!session)));
+  });
+}
+
+async function endSession(req: any, sid: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    // Destroying the request's own session through req.session stops
+    // express-session from saving it again at the end of the response
+    const done = (error: unknown) => (error ? reject(error) : resolve());
+    if (sid === req.sessionID) {
+      req.session.destroy(done);
+    } else {
+      getSessionStore().destroy(sid, done);
+    }
+  });
+  await storage.deleteUserSession(sid);
+}
+
+// The user's sessions that are still signed in. Rows of sessions that
+// expired or were signed out in the meantime are cleared out on the way.
+async function getActiveSessions(userId: string): Promise<UserSession[]> {
+  const active: UserSession[] = [];
+  for (const session of await storage.getUserSessions(userId)) {
+    if (await sessionExists(session.sid)) {
+      active.push(session);
+    } else {
+      await storage.deleteUserSession(session.sid);
+    }
+  }
+  return active;
+}
+
+function describeSession(req: Request, session: UserSession) {
+  return {
+    sid: session.sid,
+    device: session.device,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.sid === req.sessionID,
+  };
+}
+
+export function registerSessionRoutes(app: Express) {
+  // Sessions are managed from a signed-in browser, not with API tokens
+  app.use("/api/sessions", isAuthenticated, (req: any, res, next) => {
+    if (req.user.tokenId) {
+      return res.status(403).json({ message: "API tokens cannot manage sessions" });
+    }
+    next();
+  });
+
+  app.get("/api/sessions", async (req: any, res) => {
+    try {
+      const sessions = await getActiveSessions(req.user.claims.sub);
+      res.setHeader("Cache-Control", "no-store");
+      res.json(sessions.map((session) => describeSession(req, session)));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/:sid", async (req: any, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.user.claims.sub);
+      const session = sessions.find(({ sid }) => sid === req.params.sid);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await endSession(req, session.sid);
+      await recordAudit(req, { action: "session.revoke", details: { device: session.device } });
+      res.json({ success: true, message: "Session signed out" });
+    } catch (error) {
+      console.error("Error ending session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  app.delete("/api/sessions", async (req: any, res) => {
+    try {
+      const others = (await storage.getUserSessions(req.user.claims.sub))
+        .filter(({ sid }) => sid !== req.sessionID);
+      for (const session of others) {
+        await endSession(req, session.sid);
+      }
+      // The request's own session last, so a failure above leaves the user signed in to see it
+      await endSession(req, req.sessionID);
+
+      const count = others.length + 1;
+      await recordAudit(req, { action: "session.revoke", details: { sessions: count } });
+      res.json({ success: true, message: `Signed out of ${count} session${count === 1 ? "" : "s"}` });
+    } catch (error) {
+      console.error("Error ending sessions:", error);
+      res.status(500).json({ message: "Failed to sign out everywhere" });
+    }
+  });
+}
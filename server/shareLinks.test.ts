@@ -0,0 +1,66 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request } from "express";
+import { nanoid } from "nanoid";
+import type { Item } from "@shared/schema";
+import { storage } from "./storage-final";
+import { resolveShareLink, shareToken, ShareLinkError } from "./shareLinks";
+
+const userId = "share-owner";
+let item: Item;
+
+function request(unlockedShareLinks: string[] = []): Request {
+  return { session: { unlockedShareLinks } } as unknown as Request;
+}
+
+async function createLink(changes: Record<string, unknown> = {}) {
+  return storage.createShareLink(userId, { id: nanoid(), itemId: item.id, ...changes });
+}
+
+function rejectsWith(status: number) {
+  return (error: unknown) => error instanceof ShareLinkError && error.status === status;
+}
+
+describe("share link tokens", () => {
+  before(async () => {
+    await storage.upsertUser({ id: userId, email: "share-owner@example.com" });
+    item = await storage.createItem(userId, { title: "Shared note", type: "note", content: "hello", tags: [] });
+  });
+
+  it("resolves a signed token to its link and item", async () => {
+    const link = await createLink();
+    const resolved = await resolveShareLink(request(), shareToken(link.id));
+    assert.equal(resolved.link.id, link.id);
+    assert.equal(resolved.item.id, item.id);
+  });
+
+  it("rejects a tampered signature", async () => {
+    const link = await createLink();
+    const token = shareToken(link.id);
+    const last = token.at(-1) === "A" ? "B" : "A";
+    await assert.rejects(resolveShareLink(request(), token.slice(0, -1) + last), rejectsWith(404));
+    await assert.rejects(resolveShareLink(request(), link.id), rejectsWith(404));
+  });
+
+  it("does not accept one link's signature for another", async () => {
+    const [first, second] = [await createLink(), await createLink()];
+    const signature = shareToken(first.id).split(".")[1];
+    await assert.rejects(resolveShareLink(request(), `${second.id}.${signature}`), rejectsWith(404));
+  });
+
+  it("rejects expired and used up links", async () => {
+    const expired = await createLink({ expiresAt: new Date(Date.now() - 1000) });
+    await assert.rejects(resolveShareLink(request(), shareToken(expired.id)), rejectsWith(410));
+
+    const usedUp = await createLink({ maxDownloads: 1 });
+    await storage.recordShareDownload(usedUp.id);
+    await assert.rejects(resolveShareLink(request(), shareToken(usedUp.id)), rejectsWith(410));
+  });
+
+  it("needs password protected links unlocked in the session", async () => {
+    const link = await createLink({ passwordHash: "hash" });
+    await assert.rejects(resolveShareLink(request(), shareToken(link.id)), rejectsWith(401));
+    await resolveShareLink(request([link.id]), shareToken(link.id));
+    await resolveShareLink(request(), shareToken(link.id), { requireUnlocked: false });
+  });
+});
@@ -0,0 +1,269 @@
+import crypto from "crypto";
+import type { Express, Request } from "express";
+import { nanoid } from "nanoid";
+import { createShareLinkSchema, type Item, type ShareLink } from "@shared/schema";
+import { storage } from "./storage-final";
+import { hashPassword, verifyPassword } from "./passwords";
+import { isAuthenticated, sessionSecret } from "./auth";
+import { authorizeItem, WorkspaceAccessError } from "./workspaces";
+import { recordAudit } from "./audit";
+import { rateLimit } from "./rateLimit";
+
+// Public share links for single items:
+//   GET    /api/items/:id/share-links    the owner's links for an item
+//   POST   /api/items/:id/share-links    create a link
+//   DELETE /api/share-links/:id          revoke a link
+//   GET    /api/shared/:token            read-only view of the shared item
+//   POST   /api/shared/:token/unlock     check the password, remembered in the session
+// Shared files download through /api/files/<key>?share=<token>.
+
+export class ShareLinkError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+function sign(id: string): string {
+  return crypto
+    .createHmac("sha256", sessionSecret)
+    .update(`share:${id}`)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+export function shareToken(id: string): string {
+  return `${id}.${sign(id)}`;
+}
+
+// The link id, or undefined if the signature does not match
+function verifyToken(token: string): string | undefined {
+  const [id, signature] = token.split(".");
+  if (!id || !signature) return undefined;
+
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+  return id;
+}
+
+function isUnlocked(req: Request, link: ShareLink): boolean {
+  const unlocked: string[] = (req.session as any)?.unlockedShareLinks ?? [];
+  return !link.passwordHash || unlocked.includes(link.id);
+}
+
+function downloadsRemaining(link: ShareLink): number | null {
+  return link.maxDownloads === null ? null : Math.max(link.maxDownloads - link.downloadCount, 0);
+}
+
+// What the owner sees; never includes the password hash
+function describeLink(link: ShareLink) {
+  const token = shareToken(link.id);
+  return {
+    id: link.id,
+    itemId: link.itemId,
+    token,
+    url: `/s/${token}`,
+    hasPassword: !!link.passwordHash,
+    expiresAt: link.expiresAt,
+    maxDownloads: link.maxDownloads,
+    downloadCount: link.downloadCount,
+    createdAt: link.createdAt,
+  };
+}
+
+// What visitors see: the item's content without owner-only fields
+function describeSharedItem(token: string, link: ShareLink, item: Item) {
+  return {
+    title: item.title,
+    type: item.type,
+    content: item.content,
+    fileName: item.fileName,
+    fileSize: item.fileSize,
+    mimeType: item.mimeType,
+    metadata: item.metadata,
+    fileUrl: item.type === "file" && item.objectKey
+      ? `/api/files/${item.objectKey}?share=${encodeURIComponent(token)}`
+      : item.type === "link" ? item.fileUrl : null,
+    scanStatus: item.scanStatus,
+    createdAt: item.createdAt,
+    expiresAt: link.expiresAt,
+    downloadsRemaining: downloadsRemaining(link),
+  };
+}
+
+interface ResolveOptions {
+  // Password-protected links must have been unlocked in this session
+  requireUnlocked?: boolean;
+}
+
+// Resolve a token to its link and item, throwing ShareLinkError if the link
+// is forged, revoked, expired, used up or still locked
+export async function resolveShareLink(
+  req: Request,
+  token: string,
+  { requireUnlocked = true }: ResolveOptions = {},
+): Promise<{ link: ShareLink; item: Item }> {
+  const id = verifyToken(token);
+  const link = id ? await storage.getShareLink(id) : undefined;
+  const item = link ? await storage.getItem(link.userId, link.itemId) : undefined;
+  if (!link || !item) {
+    throw new ShareLinkError(404, "Share link not found");
+  }
+
+  if (link.expiresAt && link.expiresAt <= new Date()) {
+    throw new ShareLinkError(410, "This share link has expired");
+  }
+  if (downloadsRemaining(link) === 0) {
+    throw new ShareLinkError(410, "This share link has reached its download limit");
+  }
+  if (requireUnlocked && !isUnlocked(req, link)) {
+    throw new ShareLinkError(401, "Password required");
+  }
+
+  return { link, item };
+}
+
+// Whether this request starts a download. Range requests that continue an
+// earlier one (seeking in a video, resuming) do not.
+export function startsDownload(req: Request): boolean {
+  if (req.method !== "GET") return false;
+  const range = req.headers.range;
+  return !range || range.startsWith("bytes=0-");
+}
+
+// Count a download of a shared file, and log it for the link's owner
+export async function recordShareDownload(req: Request, link: ShareLink, item: Item): Promise<void> {
+  if (!startsDownload(req)) return;
+
+  if (!(await storage.recordShareDownload(link.id))) {
+    throw new ShareLinkError(410, "This share link has reached its download limit");
+  }
+  await recordAudit(req, {
+    action: "share.download",
+    userId: link.userId,
+    actorId: null,
+    item,
+    details: { shareLinkId: link.id },
+  });
+}
+
+export function registerShareRoutes(app: Express) {
+  app.get("/api/items/:id/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const itemId = parseInt(req.params.id);
+      await authorizeItem(userId, itemId, "editor");
+
+      const links = await storage.getShareLinks(userId, itemId);
+      res.json(links.map(describeLink));
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/items/:id/share-links", isAuthenticated, async (req: any, res) => {
+    try {
+      const validation = createShareLinkSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid share link",
+          errors: validation.error.issues
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const itemId = parseInt(req.params.id);
+      const item = await authorizeItem(userId, itemId, "editor");
+
+      const { expiresAt, password, maxDownloads } = validation.data;
+      const link = await storage.createShareLink(userId, {
+        id: nanoid(16),
+        itemId,
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: expiresAt ?? null,
+        maxDownloads: maxDownloads ?? null,
+      });
+
+      await recordAudit(req, {
+        action: "share.create",
+        item,
+        details: {
+          shareLinkId: link.id,
+          hasPassword: !!link.passwordHash,
+          expiresAt: link.expiresAt,
+          maxDownloads: link.maxDownloads,
+        },
+      });
+      res.status(201).json(describeLink(link));
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating share link:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.delete("/api/share-links/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const link = await storage.getShareLink(req.params.id);
+      if (!link || link.userId !== userId || !(await storage.deleteShareLink(userId, link.id))) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      const item = await storage.getItem(userId, link.itemId);
+      await recordAudit(req, {
+        action: "share.revoke",
+        item,
+        details: { shareLinkId: link.id },
+      });
+      res.json({ success: true, message: "Share link revoked" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // Public: no isAuthenticated on these two
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const { link, item } = await resolveShareLink(req, req.params.token);
+      res.setHeader("Cache-Control", "no-store");
+      res.json(describeSharedItem(req.params.token, link, item));
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error resolving share link:", error);
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
+  app.post("/api/shared/:token/unlock", rateLimit("login"), async (req: any, res) => {
+    try {
+      const { link } = await resolveShareLink(req, req.params.token, { requireUnlocked: false });
+      const password = typeof req.body?.password === "string" ? req.body.password : "";
+      if (link.passwordHash && !(await verifyPassword(password, link.passwordHash))) {
+        return res.status(401).json({ message: "Incorrect password" });
+      }
+
+      const unlocked: string[] = req.session.unlockedShareLinks ?? [];
+      if (!unlocked.includes(link.id)) {
+        req.session.unlockedShareLinks = [...unlocked, link.id];
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof ShareLinkError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error unlocking share link:", error);
+      res.status(500).json({ message: "Failed to unlock share link" });
+    }
+  });
+}
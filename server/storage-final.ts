@@ -1,45 +1,241 @@
 import {
   users,
+  localAccounts,
   items,
+  blobs,
+  uploads,
+  shareLinks,
+  apiTokens,
+  workspaces,
+  workspaceMembers,
+  auditEvents,
+  userKeys,
+  dataKeys,
+  rateLimits,
+  userSessions,
   type User,
   type UpsertUser,
+  type LocalAccount,
+  type InsertLocalAccount,
   type Item,
   type InsertItem,
+  type UpdateItem,
+  type StoredBlob,
+  type InsertStoredBlob,
+  type Upload,
+  type InsertUpload,
+  type ShareLink,
+  type InsertShareLink,
+  type ApiToken,
+  type InsertApiToken,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type ActivityQuery,
+  type UserKey,
+  type InsertUserKey,
+  type DataKey,
+  type InsertDataKey,
+  type RateLimit,
+  type ScanStatus,
+  type ExtractionStatus,
+  type UserSession,
+  type InsertUserSession,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, ilike } from "drizzle-orm";
-import { Client } from "@replit/object-storage";
+import { eq, and, or, lt, lte, gte, isNull, inArray, asc, desc, sql, getTableColumns } from "drizzle-orm";
+import { blobStore } from "./blobStore";
+import { MemStorage } from "./storage-memory";
+import { hasTextTerms, searchCondition, searchRank, TAG_LIMIT, type SearchQuery } from "./search";
+
+// Item count and total file size for one type and MIME type
+export interface ItemUsage {
+  type: string;
+  mimeType: string | null;
+  count: number;
+  bytes: number;
+}
+
+// A workspace as one of its members sees it
+export type UserWorkspace = Workspace & { role: WorkspaceRole };
+
+export type WorkspaceMemberDetails = WorkspaceMember &
+  Pick<User, 'email' | 'firstName' | 'lastName' | 'profileImageUrl'>;
+
+// An audit event with the acting user's name, for display
+export type AuditEventDetails = AuditEvent & {
+  actor: Pick<User, 'email' | 'firstName' | 'lastName'> | null;
+};
 
 export interface IStorage {
-  getItems(userId: string, searchQuery?: string, type?: string): Promise<Item[]>;
-  getItem(id: number): Promise<Item | undefined>;
-  getItemByObjectKey(objectKey: string): Promise<Item | undefined>;
+  // The user's personal items, or a workspace's when workspaceId is set
+  getItems(userId: string, search?: SearchQuery, type?: string, workspaceId?: number | null): Promise<Item[]>;
+  // Tags on the same items, most used first, for completing tag: in search
+  getTags(userId: string, workspaceId?: number | null): Promise<string[]>;
+  // Item reads and writes only see the user's personal items and those of
+  // workspaces they belong to; roles are checked by the caller
+  getItem(userId: string, id: number): Promise<Item | undefined>;
+  // An item referencing the object in one workspace, or among personal items for null
+  getItemByObjectKey(userId: string, objectKey: string, workspaceId: number | null): Promise<Item | undefined>;
+  // Every item referencing the object, personal items first, then oldest first
+  getItemsByObjectKey(userId: string, objectKey: string): Promise<Item[]>;
   createItem(userId: string, item: InsertItem): Promise<Item>;
-  updateItem(id: number, item: Partial<InsertItem>): Promise<Item | undefined>;
-  deleteItem(id: number): Promise<boolean>;
+  updateItem(userId: string, id: number, item: UpdateItem): Promise<Item | undefined>;
+  deleteItem(userId: string, id: number): Promise<boolean>;
+  // Totals over the items a user created, including those in workspaces
+  getItemUsage(userId: string): Promise<ItemUsage[]>;
+  // For the scanners, which work across users
+  getItemsByScanStatus(status: ScanStatus): Promise<Item[]>;
+  setScanResult(id: number, status: ScanStatus, result: string | null): Promise<void>;
+  // For text extraction, also across users. The text is left as it is when
+  // undefined, e.g. while a file waits to be extracted again.
+  getItemsByExtractionStatus(status: ExtractionStatus): Promise<Item[]>;
+  setExtractionResult(id: number, status: ExtractionStatus, text?: string | null): Promise<void>;
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getLocalAccount(email: string): Promise<LocalAccount | undefined>;
+  // Creates a new user along with their local account, in one transaction
+  createLocalAccount(user: UpsertUser, account: Omit<InsertLocalAccount, 'userId'>): Promise<LocalAccount>;
+  getLocalAccountByUserId(userId: string): Promise<LocalAccount | undefined>;
+  updateLocalAccount(
+    userId: string,
+    changes: Partial<Pick<LocalAccount, 'totpSecret' | 'totpEnabledAt' | 'totpLastStep' | 'recoveryCodeHashes'>>,
+  ): Promise<LocalAccount | undefined>;
+  // Records a TOTP time step as used; false if it, or a later one, already was
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  // Removes a recovery code by its hash; false if it was not an unused code
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  // Adds a reference to a blob, creating its row if needed. `created` tells
+  // the caller it still has to write the object to the blob store.
+  acquireBlob(blob: Omit<InsertStoredBlob, 'refCount' | 'createdAt'>): Promise<{ blob: StoredBlob; created: boolean }>;
+  getBlob(objectKey: string): Promise<StoredBlob | undefined>;
+  // Drops a reference; true when it was the last one and the object can go
+  releaseBlob(objectKey: string): Promise<boolean>;
+  // Envelope encryption keys, see fileEncryption.ts. Without a user, every user's keys, oldest first.
+  getUserKeys(userId?: string): Promise<UserKey[]>;
+  createUserKey(key: Omit<InsertUserKey, 'id' | 'createdAt'>): Promise<UserKey>;
+  updateUserKey(id: number, key: Pick<UserKey, 'wrappedKey' | 'masterKeyId'>): Promise<void>;
+  // Replaces all of a user's keys with a new one in one transaction, moving
+  // their data keys over with `rewrap`; returns how many data keys moved
+  replaceUserKeys(
+    userId: string,
+    key: Omit<InsertUserKey, 'id' | 'createdAt'>,
+    rewrap: (dataKey: DataKey, oldKey: UserKey) => string,
+  ): Promise<number>;
+  getDataKeys(objectKey: string): Promise<DataKey[]>;
+  // Stores a user's wrapping of an object's data key, replacing an earlier one
+  setDataKey(key: Omit<InsertDataKey, 'createdAt'>): Promise<DataKey>;
+  deleteDataKeys(objectKey: string): Promise<void>;
+  createUpload(userId: string, upload: Omit<InsertUpload, 'userId'>): Promise<Upload>;
+  getUpload(userId: string, id: string): Promise<Upload | undefined>;
+  // Records a stored chunk; undefined if the upload is not at expectedOffset
+  appendUploadChunk(userId: string, id: string, expectedOffset: number, chunkSize: number): Promise<Upload | undefined>;
+  deleteUpload(userId: string, id: string): Promise<boolean>;
+  deleteExpiredUploads(now: Date): Promise<Upload[]>;
+  // Every user's uploads in progress, for finding chunks no upload refers to
+  getUploadIds(): Promise<string[]>;
+  createShareLink(userId: string, link: Omit<InsertShareLink, 'userId'>): Promise<ShareLink>;
+  getShareLinks(userId: string, itemId: number): Promise<ShareLink[]>;
+  // Public lookup by id, for visitors; only call it once the link's signature checks out
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  // Counts a download; undefined if the link has reached its download limit
+  recordShareDownload(id: string): Promise<ShareLink | undefined>;
+  deleteShareLink(userId: string, id: string): Promise<boolean>;
+  createApiToken(userId: string, token: Omit<InsertApiToken, 'userId'>): Promise<ApiToken>;
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  // Lookup for bearer authentication, by the SHA-256 of the presented token
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: string, usedAt: Date): Promise<void>;
+  deleteApiToken(userId: string, id: string): Promise<boolean>;
+  // Creates the session's row or refreshes its device and last-seen time
+  upsertUserSession(session: Omit<InsertUserSession, 'createdAt'>): Promise<UserSession>;
+  // Most recently seen first
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteUserSession(sid: string): Promise<void>;
+  // Creates the workspace with the user as its owner
+  createWorkspace(userId: string, name: string): Promise<Workspace>;
+  getWorkspaces(userId: string): Promise<UserWorkspace[]>;
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getWorkspaceRole(workspaceId: number, userId: string): Promise<WorkspaceRole | undefined>;
+  updateWorkspace(id: number, changes: Partial<Pick<Workspace, 'name' | 'requireTwoFactor'>>): Promise<Workspace | undefined>;
+  // Fails while items still belong to the workspace
+  deleteWorkspace(id: number): Promise<boolean>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]>;
+  // Adds the member or changes their role
+  setWorkspaceMember(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember>;
+  removeWorkspaceMember(workspaceId: number, userId: string): Promise<boolean>;
+  // The audit log is append-only: there is deliberately no update or delete
+  recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  // The user's own events and those of their workspaces, newest first
+  getAuditEvents(userId: string, query: ActivityQuery): Promise<AuditEventDetails[]>;
+  // Counts one request against a key, starting a new window of windowMs
+  // once the current one has ended; returns the updated counter
+  hitRateLimit(key: string, windowMs: number, now: Date): Promise<RateLimit>;
+  deleteExpiredRateLimits(now: Date): Promise<void>;
 }
 
-export class DatabaseStorage implements IStorage {
-  private objectStorage = new Client();
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function releaseBlobReference(executor: typeof db | Transaction, objectKey: string): Promise<boolean> {
+  const [blob] = await executor
+    .update(blobs)
+    .set({ refCount: sql`${blobs.refCount} - 1` })
+    .where(eq(blobs.objectKey, objectKey))
+    .returning();
+
+  // Untracked objects belonged to the one item that referenced them
+  if (!blob) return true;
+  if (blob.refCount > 0) return false;
+
+  await executor
+    .delete(blobs)
+    .where(and(eq(blobs.objectKey, objectKey), lte(blobs.refCount, 0)));
+  await executor.delete(dataKeys).where(eq(dataKeys.objectKey, objectKey));
+  return true;
+}
+
+function memberWorkspaceIds(userId: string) {
+  return db
+    .select({ workspaceId: workspaceMembers.workspaceId })
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId));
+}
+
+// Items the user can see: their personal items and their workspaces' items
+function visibleTo(userId: string) {
+  return or(
+    and(eq(items.userId, userId), isNull(items.workspaceId)),
+    inArray(items.workspaceId, memberWorkspaceIds(userId)),
+  )!;
+}
 
-  async getItems(userId: string, searchQuery?: string, type?: string): Promise<Item[]> {
+export class DatabaseStorage implements IStorage {
+  async getItems(userId: string, search?: SearchQuery, type?: string, workspaceId?: number | null): Promise<Item[]> {
     try {
-      let whereConditions = [eq(items.userId, userId)];
+      let whereConditions = [
+        visibleTo(userId),
+        workspaceId ? eq(items.workspaceId, workspaceId) : isNull(items.workspaceId),
+      ];
       
       if (type && type !== 'all') {
         whereConditions.push(eq(items.type, type));
       }
       
-      if (searchQuery) {
-        const searchClause = or(
-          ilike(items.title, `%${searchQuery}%`),
-          ilike(items.content, `%${searchQuery}%`),
-          ilike(items.fileName, `%${searchQuery}%`)
-        );
-        if (searchClause) {
-          whereConditions.push(searchClause);
+      if (search) {
+        // Nothing searchable, e.g. only punctuation
+        if (search.length === 0) return [];
+        whereConditions.push(searchCondition(search));
+
+        // Most relevant first; a query of only filters keeps the newest first
+        if (hasTextTerms(search)) {
+          return await db
+            .select()
+            .from(items)
+            .where(and(...whereConditions))
+            .orderBy(desc(searchRank(search)), desc(items.createdAt));
         }
       }
       
@@ -56,9 +252,35 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getItem(id: number): Promise<Item | undefined> {
+  async getTags(userId: string, workspaceId?: number | null): Promise<string[]> {
     try {
-      const [item] = await db.select().from(items).where(eq(items.id, id));
+      const itemTags = db
+        .select({ tag: sql<string>`unnest(${items.tags})`.as("tag") })
+        .from(items)
+        .where(and(
+          visibleTo(userId),
+          workspaceId ? eq(items.workspaceId, workspaceId) : isNull(items.workspaceId),
+        ))
+        .as("item_tags");
+      const rows = await db
+        .select({ tag: itemTags.tag })
+        .from(itemTags)
+        .groupBy(itemTags.tag)
+        .orderBy(desc(sql`count(*)`), asc(itemTags.tag))
+        .limit(TAG_LIMIT);
+      return rows.map((row) => row.tag);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      throw error;
+    }
+  }
+
+  async getItem(userId: string, id: number): Promise<Item | undefined> {
+    try {
+      const [item] = await db
+        .select()
+        .from(items)
+        .where(and(eq(items.id, id), visibleTo(userId)));
       return item;
     } catch (error) {
       console.error('Error fetching item:', error);
@@ -66,9 +288,18 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getItemByObjectKey(objectKey: string): Promise<Item | undefined> {
+  async getItemByObjectKey(userId: string, objectKey: string, workspaceId: number | null): Promise<Item | undefined> {
     try {
-      const [item] = await db.select().from(items).where(ilike(items.metadata, `%"objectKey":"${objectKey}"%`));
+      const [item] = await db
+        .select()
+        .from(items)
+        .where(and(
+          eq(items.objectKey, objectKey),
+          visibleTo(userId),
+          workspaceId === null ? isNull(items.workspaceId) : eq(items.workspaceId, workspaceId),
+        ))
+        .orderBy(asc(items.id))
+        .limit(1);
       return item;
     } catch (error) {
       console.error('Error fetching item by object key:', error);
@@ -76,6 +307,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getItemsByObjectKey(userId: string, objectKey: string): Promise<Item[]> {
+    try {
+      return await db
+        .select()
+        .from(items)
+        .where(and(eq(items.objectKey, objectKey), visibleTo(userId)))
+        .orderBy(sql`${items.workspaceId} IS NOT NULL`, asc(items.id));
+    } catch (error) {
+      console.error('Error fetching items by object key:', error);
+      return [];
+    }
+  }
+
   async createItem(userId: string, insertItem: InsertItem): Promise<Item> {
     try {
       const [item] = await db
@@ -92,7 +336,52 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateItem(id: number, updateData: Partial<InsertItem>): Promise<Item | undefined> {
+  async getItemsByScanStatus(status: ScanStatus): Promise<Item[]> {
+    try {
+      return await db.select().from(items).where(eq(items.scanStatus, status)).orderBy(asc(items.id));
+    } catch (error) {
+      console.error('Error fetching items by scan status:', error);
+      throw error;
+    }
+  }
+
+  // Leaves updatedAt alone: a scan does not change the item
+  async setScanResult(id: number, status: ScanStatus, result: string | null): Promise<void> {
+    try {
+      await db.update(items).set({ scanStatus: status, scanResult: result }).where(eq(items.id, id));
+    } catch (error) {
+      console.error('Error saving scan result:', error);
+      throw error;
+    }
+  }
+
+  async getItemsByExtractionStatus(status: ExtractionStatus): Promise<Item[]> {
+    try {
+      return await db.select().from(items).where(eq(items.extractionStatus, status));
+    } catch (error) {
+      console.error('Error fetching items by extraction status:', error);
+      throw error;
+    }
+  }
+
+  async setExtractionResult(id: number, status: ExtractionStatus, text?: string | null): Promise<void> {
+    try {
+      if (text === undefined) {
+        await db.update(items).set({ extractionStatus: status }).where(eq(items.id, id));
+        return;
+      }
+      // extracted_text is not part of the drizzle table, see shared/schema.ts
+      await db.execute(sql`
+        UPDATE ${items} SET extraction_status = ${status}, extracted_text = ${text}
+        WHERE ${items.id} = ${id}
+      `);
+    } catch (error) {
+      console.error('Error saving extraction result:', error);
+      throw error;
+    }
+  }
+
+  async updateItem(userId: string, id: number, updateData: UpdateItem): Promise<Item | undefined> {
     try {
       const [item] = await db
         .update(items)
@@ -100,7 +389,7 @@ export class DatabaseStorage implements IStorage {
           ...updateData,
           updatedAt: new Date(),
         })
-        .where(eq(items.id, id))
+        .where(and(eq(items.id, id), visibleTo(userId)))
         .returning();
       return item;
     } catch (error) {
@@ -109,34 +398,58 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async deleteItem(id: number): Promise<boolean> {
+  async deleteItem(userId: string, id: number): Promise<boolean> {
     try {
-      // Get the item first to check if it has an object key
-      const item = await this.getItem(id);
-      
-      // Delete from database
-      const result = await db.delete(items).where(eq(items.id, id));
+      // Delete the row and drop its blob reference together
+      const { deleted, orphanedKey } = await db.transaction(async (tx) => {
+        const [item] = await tx
+          .delete(items)
+          .where(and(eq(items.id, id), visibleTo(userId)))
+          .returning();
+        if (!item) {
+          return { deleted: false, orphanedKey: null };
+        }
+        const isLastReference = item.objectKey
+          ? await releaseBlobReference(tx, item.objectKey)
+          : false;
+        return { deleted: true, orphanedKey: isLastReference ? item.objectKey : null };
+      });
       
-      // If item has object storage data, delete from object storage too
-      if (item && item.metadata && item.type === 'file') {
+      // Only remove the stored blob once no other item shares it
+      if (orphanedKey) {
         try {
-          const metadata = JSON.parse(item.metadata);
-          if (metadata.objectKey) {
-            await this.objectStorage.delete(metadata.objectKey);
-          }
+          await blobStore.delete(orphanedKey);
         } catch (objError) {
-          console.error('Error deleting from object storage:', objError);
-          // Don't fail the whole operation if object storage deletion fails
+          console.error('Error deleting from blob store:', objError);
+          // Don't fail the whole operation if blob deletion fails
         }
       }
       
-      return (result.rowCount ?? 0) > 0;
+      return deleted;
     } catch (error) {
       console.error('Error deleting item:', error);
       return false;
     }
   }
 
+  async getItemUsage(userId: string): Promise<ItemUsage[]> {
+    try {
+      return await db
+        .select({
+          type: items.type,
+          mimeType: items.mimeType,
+          count: sql<number>`count(*)`.mapWith(Number),
+          bytes: sql<number>`coalesce(sum(${items.fileSize}), 0)`.mapWith(Number),
+        })
+        .from(items)
+        .where(eq(items.userId, userId))
+        .groupBy(items.type, items.mimeType);
+    } catch (error) {
+      console.error('Error fetching item usage:', error);
+      throw error;
+    }
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     try {
       const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -166,6 +479,696 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    try {
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+      return user;
+    } catch (error) {
+      console.error('Error fetching user by email:', error);
+      return undefined;
+    }
+  }
+
+  async getLocalAccount(email: string): Promise<LocalAccount | undefined> {
+    try {
+      const [account] = await db.select().from(localAccounts).where(eq(localAccounts.email, email));
+      return account;
+    } catch (error) {
+      console.error('Error fetching local account:', error);
+      return undefined;
+    }
+  }
+
+  async createLocalAccount(userData: UpsertUser, accountData: Omit<InsertLocalAccount, 'userId'>): Promise<LocalAccount> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [user] = await tx.insert(users).values(userData).returning();
+        const [account] = await tx.insert(localAccounts).values({ ...accountData, userId: user.id }).returning();
+        return account;
+      });
+    } catch (error) {
+      console.error('Error creating local account:', error);
+      throw error;
+    }
+  }
+
+  async getLocalAccountByUserId(userId: string): Promise<LocalAccount | undefined> {
+    try {
+      const [account] = await db.select().from(localAccounts).where(eq(localAccounts.userId, userId));
+      return account;
+    } catch (error) {
+      console.error('Error fetching local account:', error);
+      throw error;
+    }
+  }
+
+  async updateLocalAccount(
+    userId: string,
+    changes: Partial<Pick<LocalAccount, 'totpSecret' | 'totpEnabledAt' | 'totpLastStep' | 'recoveryCodeHashes'>>,
+  ): Promise<LocalAccount | undefined> {
+    try {
+      const [account] = await db
+        .update(localAccounts)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(localAccounts.userId, userId))
+        .returning();
+      return account;
+    } catch (error) {
+      console.error('Error updating local account:', error);
+      throw error;
+    }
+  }
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    try {
+      // A single conditional update, so two requests cannot both use the same code
+      const updated = await db
+        .update(localAccounts)
+        .set({ totpLastStep: step })
+        .where(and(
+          eq(localAccounts.userId, userId),
+          or(isNull(localAccounts.totpLastStep), lt(localAccounts.totpLastStep, step)),
+        ))
+        .returning({ userId: localAccounts.userId });
+      return updated.length > 0;
+    } catch (error) {
+      console.error('Error recording TOTP step:', error);
+      throw error;
+    }
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    try {
+      const updated = await db
+        .update(localAccounts)
+        .set({ recoveryCodeHashes: sql`${localAccounts.recoveryCodeHashes} - ${codeHash}::text` })
+        .where(and(
+          eq(localAccounts.userId, userId),
+          sql`${localAccounts.recoveryCodeHashes} @> jsonb_build_array(${codeHash}::text)`,
+        ))
+        .returning({ userId: localAccounts.userId });
+      return updated.length > 0;
+    } catch (error) {
+      console.error('Error using recovery code:', error);
+      throw error;
+    }
+  }
+
+  async acquireBlob(blobData: Omit<InsertStoredBlob, 'refCount' | 'createdAt'>): Promise<{ blob: StoredBlob; created: boolean }> {
+    try {
+      const [row] = await db
+        .insert(blobs)
+        .values({ ...blobData, refCount: 1 })
+        .onConflictDoUpdate({
+          target: blobs.objectKey,
+          set: { refCount: sql`${blobs.refCount} + 1` },
+        })
+        // xmax is 0 only for rows this statement inserted
+        .returning({ ...getTableColumns(blobs), created: sql<boolean>`(xmax = 0)` });
+      const { created, ...blob } = row;
+      return { blob, created };
+    } catch (error) {
+      console.error('Error acquiring blob:', error);
+      throw error;
+    }
+  }
+
+  async getBlob(objectKey: string): Promise<StoredBlob | undefined> {
+    try {
+      const [blob] = await db.select().from(blobs).where(eq(blobs.objectKey, objectKey));
+      return blob;
+    } catch (error) {
+      console.error('Error fetching blob:', error);
+      throw error;
+    }
+  }
+
+  async releaseBlob(objectKey: string): Promise<boolean> {
+    try {
+      return await releaseBlobReference(db, objectKey);
+    } catch (error) {
+      console.error('Error releasing blob:', error);
+      return false;
+    }
+  }
+
+  async getUserKeys(userId?: string): Promise<UserKey[]> {
+    try {
+      return await db
+        .select()
+        .from(userKeys)
+        .where(userId ? eq(userKeys.userId, userId) : undefined)
+        .orderBy(asc(userKeys.id));
+    } catch (error) {
+      console.error('Error fetching user keys:', error);
+      throw error;
+    }
+  }
+
+  async createUserKey(keyData: Omit<InsertUserKey, 'id' | 'createdAt'>): Promise<UserKey> {
+    try {
+      const [key] = await db.insert(userKeys).values(keyData).returning();
+      return key;
+    } catch (error) {
+      console.error('Error creating user key:', error);
+      throw error;
+    }
+  }
+
+  async updateUserKey(id: number, keyData: Pick<UserKey, 'wrappedKey' | 'masterKeyId'>): Promise<void> {
+    try {
+      await db.update(userKeys).set(keyData).where(eq(userKeys.id, id));
+    } catch (error) {
+      console.error('Error updating user key:', error);
+      throw error;
+    }
+  }
+
+  async replaceUserKeys(
+    userId: string,
+    keyData: Omit<InsertUserKey, 'id' | 'createdAt'>,
+    rewrap: (dataKey: DataKey, oldKey: UserKey) => string,
+  ): Promise<number> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Locking the old keys holds back data keys being wrapped with them
+        // (their foreign key check waits) until they have been deleted
+        const oldKeys = await tx.select().from(userKeys).where(eq(userKeys.userId, userId)).for('update');
+        const [key] = await tx.insert(userKeys).values(keyData).returning();
+        if (oldKeys.length === 0) return 0;
+
+        const byId = new Map(oldKeys.map((oldKey) => [oldKey.id, oldKey]));
+        const moved = await tx.select().from(dataKeys).where(inArray(dataKeys.userKeyId, Array.from(byId.keys())));
+        for (const dataKey of moved) {
+          await tx
+            .update(dataKeys)
+            .set({ userKeyId: key.id, wrappedKey: rewrap(dataKey, byId.get(dataKey.userKeyId)!) })
+            .where(and(eq(dataKeys.objectKey, dataKey.objectKey), eq(dataKeys.userId, dataKey.userId)));
+        }
+        await tx.delete(userKeys).where(inArray(userKeys.id, Array.from(byId.keys())));
+        return moved.length;
+      });
+    } catch (error) {
+      console.error('Error replacing user keys:', error);
+      throw error;
+    }
+  }
+
+  async getDataKeys(objectKey: string): Promise<DataKey[]> {
+    try {
+      return await db.select().from(dataKeys).where(eq(dataKeys.objectKey, objectKey));
+    } catch (error) {
+      console.error('Error fetching data keys:', error);
+      throw error;
+    }
+  }
+
+  async setDataKey(keyData: Omit<InsertDataKey, 'createdAt'>): Promise<DataKey> {
+    try {
+      const [key] = await db
+        .insert(dataKeys)
+        .values(keyData)
+        .onConflictDoUpdate({
+          target: [dataKeys.objectKey, dataKeys.userId],
+          set: { userKeyId: keyData.userKeyId, wrappedKey: keyData.wrappedKey, iv: keyData.iv },
+        })
+        .returning();
+      return key;
+    } catch (error) {
+      console.error('Error storing data key:', error);
+      throw error;
+    }
+  }
+
+  async deleteDataKeys(objectKey: string): Promise<void> {
+    try {
+      await db.delete(dataKeys).where(eq(dataKeys.objectKey, objectKey));
+    } catch (error) {
+      console.error('Error deleting data keys:', error);
+      throw error;
+    }
+  }
+
+  async createUpload(userId: string, uploadData: Omit<InsertUpload, 'userId'>): Promise<Upload> {
+    try {
+      const [upload] = await db
+        .insert(uploads)
+        .values({
+          ...uploadData,
+          userId,
+        })
+        .returning();
+      return upload;
+    } catch (error) {
+      console.error('Error creating upload:', error);
+      throw error;
+    }
+  }
+
+  async getUpload(userId: string, id: string): Promise<Upload | undefined> {
+    try {
+      const [upload] = await db
+        .select()
+        .from(uploads)
+        .where(and(eq(uploads.id, id), eq(uploads.userId, userId)));
+      return upload;
+    } catch (error) {
+      console.error('Error fetching upload:', error);
+      return undefined;
+    }
+  }
+
+  async appendUploadChunk(userId: string, id: string, expectedOffset: number, chunkSize: number): Promise<Upload | undefined> {
+    try {
+      // Conditional on the offset so concurrent PATCHes cannot both succeed
+      const [upload] = await db
+        .update(uploads)
+        .set({
+          offset: sql`${uploads.offset} + ${chunkSize}`,
+          chunkSizes: sql`array_append(${uploads.chunkSizes}, ${chunkSize}::integer)`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(uploads.id, id),
+          eq(uploads.userId, userId),
+          eq(uploads.offset, expectedOffset),
+        ))
+        .returning();
+      return upload;
+    } catch (error) {
+      console.error('Error updating upload:', error);
+      return undefined;
+    }
+  }
+
+  async deleteUpload(userId: string, id: string): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(uploads)
+        .where(and(eq(uploads.id, id), eq(uploads.userId, userId)))
+        .returning({ id: uploads.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting upload:', error);
+      return false;
+    }
+  }
+
+  async deleteExpiredUploads(now: Date): Promise<Upload[]> {
+    try {
+      return await db.delete(uploads).where(lt(uploads.expiresAt, now)).returning();
+    } catch (error) {
+      console.error('Error deleting expired uploads:', error);
+      return [];
+    }
+  }
+
+  async getUploadIds(): Promise<string[]> {
+    try {
+      const rows = await db.select({ id: uploads.id }).from(uploads);
+      return rows.map((row) => row.id);
+    } catch (error) {
+      console.error('Error fetching upload ids:', error);
+      throw error;
+    }
+  }
+
+  async createShareLink(userId: string, linkData: Omit<InsertShareLink, 'userId'>): Promise<ShareLink> {
+    try {
+      const [link] = await db
+        .insert(shareLinks)
+        .values({ ...linkData, userId })
+        .returning();
+      return link;
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw error;
+    }
+  }
+
+  async getShareLinks(userId: string, itemId: number): Promise<ShareLink[]> {
+    try {
+      return await db
+        .select()
+        .from(shareLinks)
+        .where(and(eq(shareLinks.userId, userId), eq(shareLinks.itemId, itemId)))
+        .orderBy(desc(shareLinks.createdAt));
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      return [];
+    }
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    try {
+      const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+      return link;
+    } catch (error) {
+      console.error('Error fetching share link:', error);
+      return undefined;
+    }
+  }
+
+  async recordShareDownload(id: string): Promise<ShareLink | undefined> {
+    try {
+      // Conditional so concurrent downloads cannot overshoot the limit
+      const [link] = await db
+        .update(shareLinks)
+        .set({ downloadCount: sql`${shareLinks.downloadCount} + 1` })
+        .where(and(
+          eq(shareLinks.id, id),
+          or(isNull(shareLinks.maxDownloads), lt(shareLinks.downloadCount, shareLinks.maxDownloads)),
+        ))
+        .returning();
+      return link;
+    } catch (error) {
+      console.error('Error recording share download:', error);
+      throw error;
+    }
+  }
+
+  async deleteShareLink(userId: string, id: string): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(shareLinks)
+        .where(and(eq(shareLinks.id, id), eq(shareLinks.userId, userId)))
+        .returning({ id: shareLinks.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting share link:', error);
+      return false;
+    }
+  }
+
+  async createApiToken(userId: string, tokenData: Omit<InsertApiToken, 'userId'>): Promise<ApiToken> {
+    try {
+      const [token] = await db
+        .insert(apiTokens)
+        .values({ ...tokenData, userId })
+        .returning();
+      return token;
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      throw error;
+    }
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    try {
+      return await db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, userId))
+        .orderBy(desc(apiTokens.createdAt));
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+      return [];
+    }
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    try {
+      const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error('Error fetching API token:', error);
+      return undefined;
+    }
+  }
+
+  async touchApiToken(id: string, usedAt: Date): Promise<void> {
+    try {
+      await db.update(apiTokens).set({ lastUsedAt: usedAt }).where(eq(apiTokens.id, id));
+    } catch (error) {
+      console.error('Error updating API token:', error);
+    }
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(apiTokens)
+        .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)))
+        .returning({ id: apiTokens.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting API token:', error);
+      return false;
+    }
+  }
+
+  async upsertUserSession(session: Omit<InsertUserSession, 'createdAt'>): Promise<UserSession> {
+    try {
+      const [row] = await db
+        .insert(userSessions)
+        .values(session)
+        .onConflictDoUpdate({
+          target: userSessions.sid,
+          set: {
+            device: session.device,
+            userAgent: session.userAgent,
+            ipAddress: session.ipAddress,
+            lastSeenAt: session.lastSeenAt,
+          },
+        })
+        .returning();
+      return row;
+    } catch (error) {
+      console.error('Error saving user session:', error);
+      throw error;
+    }
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    try {
+      return await db
+        .select()
+        .from(userSessions)
+        .where(eq(userSessions.userId, userId))
+        .orderBy(desc(userSessions.lastSeenAt));
+    } catch (error) {
+      console.error('Error fetching user sessions:', error);
+      throw error;
+    }
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    try {
+      await db.delete(userSessions).where(eq(userSessions.sid, sid));
+    } catch (error) {
+      console.error('Error deleting user session:', error);
+      throw error;
+    }
+  }
+
+  async createWorkspace(userId: string, name: string): Promise<Workspace> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [workspace] = await tx
+          .insert(workspaces)
+          .values({ name, createdBy: userId })
+          .returning();
+        await tx
+          .insert(workspaceMembers)
+          .values({ workspaceId: workspace.id, userId, role: 'owner' });
+        return workspace;
+      });
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      throw error;
+    }
+  }
+
+  async getWorkspaces(userId: string): Promise<UserWorkspace[]> {
+    try {
+      return await db
+        .select({ ...getTableColumns(workspaces), role: workspaceMembers.role })
+        .from(workspaces)
+        .innerJoin(workspaceMembers, eq(workspaceMembers.workspaceId, workspaces.id))
+        .where(eq(workspaceMembers.userId, userId))
+        .orderBy(asc(workspaces.name));
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+      return [];
+    }
+  }
+
+  async getWorkspaceRole(workspaceId: number, userId: string): Promise<WorkspaceRole | undefined> {
+    try {
+      const [member] = await db
+        .select({ role: workspaceMembers.role })
+        .from(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+      return member?.role;
+    } catch (error) {
+      console.error('Error fetching workspace role:', error);
+      throw error;
+    }
+  }
+
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    try {
+      const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+      return workspace;
+    } catch (error) {
+      console.error('Error fetching workspace:', error);
+      throw error;
+    }
+  }
+
+  async updateWorkspace(id: number, changes: Partial<Pick<Workspace, 'name' | 'requireTwoFactor'>>): Promise<Workspace | undefined> {
+    try {
+      const [workspace] = await db
+        .update(workspaces)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(workspaces.id, id))
+        .returning();
+      return workspace;
+    } catch (error) {
+      console.error('Error updating workspace:', error);
+      return undefined;
+    }
+  }
+
+  async deleteWorkspace(id: number): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(workspaces)
+        .where(eq(workspaces.id, id))
+        .returning({ id: workspaces.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting workspace:', error);
+      return false;
+    }
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]> {
+    try {
+      return await db
+        .select({
+          ...getTableColumns(workspaceMembers),
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(users.id, workspaceMembers.userId))
+        .where(eq(workspaceMembers.workspaceId, workspaceId))
+        .orderBy(asc(workspaceMembers.createdAt));
+    } catch (error) {
+      console.error('Error fetching workspace members:', error);
+      return [];
+    }
+  }
+
+  async setWorkspaceMember(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    try {
+      const [member] = await db
+        .insert(workspaceMembers)
+        .values({ workspaceId, userId, role })
+        .onConflictDoUpdate({
+          target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+          set: { role },
+        })
+        .returning();
+      return member;
+    } catch (error) {
+      console.error('Error setting workspace member:', error);
+      throw error;
+    }
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: string): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(workspaceMembers)
+        .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+        .returning({ userId: workspaceMembers.userId });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error removing workspace member:', error);
+      return false;
+    }
+  }
+
+  async recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    try {
+      const [recorded] = await db.insert(auditEvents).values(event).returning();
+      return recorded;
+    } catch (error) {
+      console.error('Error recording audit event:', error);
+      throw error;
+    }
+  }
+
+  async getAuditEvents(userId: string, query: ActivityQuery): Promise<AuditEventDetails[]> {
+    try {
+      const conditions = [
+        or(eq(auditEvents.userId, userId), inArray(auditEvents.workspaceId, memberWorkspaceIds(userId)))!,
+      ];
+      if (query.workspace) conditions.push(eq(auditEvents.workspaceId, query.workspace));
+      if (query.action) conditions.push(eq(auditEvents.action, query.action));
+      if (query.itemId) conditions.push(eq(auditEvents.itemId, query.itemId));
+      if (query.from) conditions.push(gte(auditEvents.createdAt, query.from));
+      if (query.to) conditions.push(lte(auditEvents.createdAt, query.to));
+      if (query.before) conditions.push(lt(auditEvents.id, query.before));
+
+      const rows = await db
+        .select({
+          event: auditEvents,
+          actor: { email: users.email, firstName: users.firstName, lastName: users.lastName },
+        })
+        .from(auditEvents)
+        .leftJoin(users, eq(users.id, auditEvents.actorId))
+        .where(and(...conditions))
+        .orderBy(desc(auditEvents.id))
+        .limit(query.limit);
+      return rows.map(({ event, actor }) => ({ ...event, actor: event.actorId ? actor : null }));
+    } catch (error) {
+      console.error('Error fetching audit events:', error);
+      throw error;
+    }
+  }
+
+  // One statement, so concurrent requests on any instance count exactly once
+  async hitRateLimit(key: string, windowMs: number, now: Date): Promise<RateLimit> {
+    try {
+      const expired = lte(rateLimits.resetAt, now);
+      const [counter] = await db
+        .insert(rateLimits)
+        .values({ key, count: 1, resetAt: new Date(now.getTime() + windowMs) })
+        .onConflictDoUpdate({
+          target: rateLimits.key,
+          set: {
+            count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+            resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+          },
+        })
+        .returning();
+      return counter;
+    } catch (error) {
+      console.error('Error counting rate limit hit:', error);
+      throw error;
+    }
+  }
+
+  async deleteExpiredRateLimits(now: Date): Promise<void> {
+    try {
+      await db.delete(rateLimits).where(lte(rateLimits.resetAt, now));
+    } catch (error) {
+      console.error('Error deleting expired rate limits:', error);
+      throw error;
+    }
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE=memory boots the app without Postgres, for tests and local demos
+export const usesMemoryStorage = process.env.STORAGE === "memory";
+
+export const storage: IStorage = usesMemoryStorage ? new MemStorage() : new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,719 @@
+import type {
+  User,
+  UpsertUser,
+  LocalAccount,
+  InsertLocalAccount,
+  Item,
+  InsertItem,
+  UpdateItem,
+  StoredBlob,
+  InsertStoredBlob,
+  Upload,
+  InsertUpload,
+  ShareLink,
+  InsertShareLink,
+  ApiToken,
+  InsertApiToken,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  AuditEvent,
+  InsertAuditEvent,
+  ActivityQuery,
+  UserKey,
+  InsertUserKey,
+  DataKey,
+  InsertDataKey,
+  RateLimit,
+  ScanStatus,
+  ExtractionStatus,
+  UserSession,
+  InsertUserSession,
+} from "@shared/schema";
+import type {
+  IStorage,
+  ItemUsage,
+  UserWorkspace,
+  WorkspaceMemberDetails,
+  AuditEventDetails,
+} from "./storage-final";
+import { blobStore } from "./blobStore";
+import { searchScore, TAG_LIMIT, type SearchQuery } from "./search";
+
+// drizzle skips undefined columns in inserts and updates; do the same here
+function withoutUndefined<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+// Process-local IStorage used by tests and demo mode (STORAGE=memory).
+// Everything is lost when the server stops.
+export class MemStorage implements IStorage {
+  private items = new Map<number, Item>();
+  // items.extracted_text, kept apart as in DatabaseStorage
+  private extractedTexts = new Map<number, string>();
+  private users = new Map<string, User>();
+  private localAccounts = new Map<string, LocalAccount>();
+  private blobs = new Map<string, StoredBlob>();
+  private uploads = new Map<string, Upload>();
+  private shareLinks = new Map<string, ShareLink>();
+  private apiTokens = new Map<string, ApiToken>();
+  private workspaces = new Map<number, Workspace>();
+  private workspaceMembers: WorkspaceMember[] = [];
+  private auditEvents: AuditEvent[] = [];
+  private userKeys = new Map<number, UserKey>();
+  private dataKeys: DataKey[] = [];
+  private rateLimits = new Map<string, RateLimit>();
+  private userSessions = new Map<string, UserSession>();
+  private nextUserKeyId = 1;
+  private nextItemId = 1;
+  private nextWorkspaceId = 1;
+
+  // Personal items of the user, or items of a workspace they belong to
+  private isVisible(item: Item, userId: string): boolean {
+    if (item.workspaceId === null) return item.userId === userId;
+    return this.workspaceMembers.some(
+      (member) => member.workspaceId === item.workspaceId && member.userId === userId,
+    );
+  }
+
+  async getItems(userId: string, search?: SearchQuery, type?: string, workspaceId?: number | null): Promise<Item[]> {
+    const scores = new Map<number, number>();
+    const results = Array.from(this.items.values()).filter((item) => {
+      if (!this.isVisible(item, userId)) return false;
+      if (item.workspaceId !== (workspaceId || null)) return false;
+      if (type && type !== 'all' && item.type !== type) return false;
+      if (search) {
+        const score = searchScore(search, item, this.extractedTexts.get(item.id));
+        scores.set(item.id, score);
+        return score > 0;
+      }
+      return true;
+    });
+
+    // Same order as DatabaseStorage: ascending by creation, then reversed,
+    // or most relevant first when searching
+    results.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    results.reverse();
+    if (search) {
+      results.sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+    }
+    return results;
+  }
+
+  async getTags(userId: string, workspaceId?: number | null): Promise<string[]> {
+    const counts = new Map<string, number>();
+    Array.from(this.items.values()).forEach((item) => {
+      if (!this.isVisible(item, userId) || item.workspaceId !== (workspaceId || null)) return;
+      (item.tags ?? []).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+    return Array.from(counts.keys())
+      .sort((a, b) => counts.get(b)! - counts.get(a)! || (a < b ? -1 : a > b ? 1 : 0))
+      .slice(0, TAG_LIMIT);
+  }
+
+  async getItem(userId: string, id: number): Promise<Item | undefined> {
+    const item = this.items.get(id);
+    return item && this.isVisible(item, userId) ? item : undefined;
+  }
+
+  async getItemByObjectKey(userId: string, objectKey: string, workspaceId: number | null): Promise<Item | undefined> {
+    return Array.from(this.items.values()).find(
+      (item) => item.objectKey === objectKey && item.workspaceId === workspaceId && this.isVisible(item, userId),
+    );
+  }
+
+  async getItemsByObjectKey(userId: string, objectKey: string): Promise<Item[]> {
+    return Array.from(this.items.values())
+      .filter((item) => item.objectKey === objectKey && this.isVisible(item, userId))
+      .sort((a, b) => Number(a.workspaceId !== null) - Number(b.workspaceId !== null) || a.id - b.id);
+  }
+
+  async createItem(userId: string, insertItem: InsertItem): Promise<Item> {
+    const now = new Date();
+    const item: Item = {
+      id: this.nextItemId++,
+      userId,
+      title: insertItem.title,
+      content: insertItem.content ?? null,
+      type: insertItem.type,
+      fileUrl: insertItem.fileUrl ?? null,
+      fileName: insertItem.fileName ?? null,
+      fileSize: insertItem.fileSize ?? null,
+      mimeType: insertItem.mimeType ?? null,
+      objectKey: insertItem.objectKey ?? null,
+      workspaceId: insertItem.workspaceId ?? null,
+      tags: insertItem.tags ?? [],
+      metadata: insertItem.metadata ?? null,
+      scanStatus: insertItem.scanStatus ?? null,
+      scanResult: insertItem.scanResult ?? null,
+      extractionStatus: insertItem.extractionStatus ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.items.set(item.id, item);
+    return item;
+  }
+
+  async getItemsByScanStatus(status: ScanStatus): Promise<Item[]> {
+    return Array.from(this.items.values()).filter((item) => item.scanStatus === status);
+  }
+
+  async setScanResult(id: number, status: ScanStatus, result: string | null): Promise<void> {
+    const item = this.items.get(id);
+    if (item) {
+      this.items.set(id, { ...item, scanStatus: status, scanResult: result });
+    }
+  }
+
+  async getItemsByExtractionStatus(status: ExtractionStatus): Promise<Item[]> {
+    return Array.from(this.items.values()).filter((item) => item.extractionStatus === status);
+  }
+
+  async setExtractionResult(id: number, status: ExtractionStatus, text?: string | null): Promise<void> {
+    const item = this.items.get(id);
+    if (!item) return;
+    this.items.set(id, { ...item, extractionStatus: status });
+    if (text === null) {
+      this.extractedTexts.delete(id);
+    } else if (text !== undefined) {
+      this.extractedTexts.set(id, text);
+    }
+  }
+
+  async updateItem(userId: string, id: number, updateData: UpdateItem): Promise<Item | undefined> {
+    const existing = await this.getItem(userId, id);
+    if (!existing) return undefined;
+
+    const item: Item = {
+      ...existing,
+      ...withoutUndefined(updateData),
+      id: existing.id,
+      userId: existing.userId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    };
+    this.items.set(id, item);
+    return item;
+  }
+
+  async deleteItem(userId: string, id: number): Promise<boolean> {
+    const item = await this.getItem(userId, id);
+    if (!item) return false;
+
+    this.items.delete(id);
+    this.extractedTexts.delete(id);
+    // Mirrors ON DELETE CASCADE on share_links.item_id
+    for (const link of Array.from(this.shareLinks.values())) {
+      if (link.itemId === id) this.shareLinks.delete(link.id);
+    }
+
+    // Only remove the stored blob once no other item shares it
+    if (item.objectKey && (await this.releaseBlob(item.objectKey))) {
+      try {
+        await blobStore.delete(item.objectKey);
+      } catch (objError) {
+        console.error('Error deleting from blob store:', objError);
+      }
+    }
+
+    return true;
+  }
+
+  async getItemUsage(userId: string): Promise<ItemUsage[]> {
+    const groups = new Map<string, ItemUsage>();
+    for (const item of Array.from(this.items.values())) {
+      if (item.userId !== userId) continue;
+      const key = `${item.type}\0${item.mimeType ?? ""}`;
+      const group = groups.get(key) ?? { type: item.type, mimeType: item.mimeType, count: 0, bytes: 0 };
+      group.count += 1;
+      group.bytes += item.fileSize ?? 0;
+      groups.set(key, group);
+    }
+    return Array.from(groups.values());
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.email?.toLowerCase() === email.toLowerCase(),
+    );
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    const now = new Date();
+    const user: User = {
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      storageQuota: null,
+      itemQuota: null,
+      createdAt: now,
+      ...existing,
+      ...withoutUndefined(userData),
+      id: userData.id,
+      updatedAt: now,
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getLocalAccount(email: string): Promise<LocalAccount | undefined> {
+    return Array.from(this.localAccounts.values()).find((account) => account.email === email);
+  }
+
+  async createLocalAccount(userData: UpsertUser, accountData: Omit<InsertLocalAccount, 'userId'>): Promise<LocalAccount> {
+    if (await this.getLocalAccount(accountData.email)) {
+      throw new Error(`Local account already exists: ${accountData.email}`);
+    }
+    const { id: userId } = await this.upsertUser(userData);
+    const now = new Date();
+    const account: LocalAccount = {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      recoveryCodeHashes: null,
+      createdAt: now,
+      updatedAt: now,
+      ...withoutUndefined(accountData),
+      userId,
+      email: accountData.email,
+      passwordHash: accountData.passwordHash,
+    };
+    this.localAccounts.set(userId, account);
+    return account;
+  }
+
+  async getLocalAccountByUserId(userId: string): Promise<LocalAccount | undefined> {
+    return this.localAccounts.get(userId);
+  }
+
+  async updateLocalAccount(
+    userId: string,
+    changes: Partial<Pick<LocalAccount, 'totpSecret' | 'totpEnabledAt' | 'totpLastStep' | 'recoveryCodeHashes'>>,
+  ): Promise<LocalAccount | undefined> {
+    const existing = this.localAccounts.get(userId);
+    if (!existing) return undefined;
+    const account = { ...existing, ...withoutUndefined(changes), updatedAt: new Date() };
+    this.localAccounts.set(userId, account);
+    return account;
+  }
+
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const account = this.localAccounts.get(userId);
+    if (!account || (account.totpLastStep !== null && account.totpLastStep >= step)) return false;
+    this.localAccounts.set(userId, { ...account, totpLastStep: step });
+    return true;
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const account = this.localAccounts.get(userId);
+    if (!account?.recoveryCodeHashes?.includes(codeHash)) return false;
+    const recoveryCodeHashes = account.recoveryCodeHashes.filter((hash) => hash !== codeHash);
+    this.localAccounts.set(userId, { ...account, recoveryCodeHashes });
+    return true;
+  }
+
+  async acquireBlob(blobData: Omit<InsertStoredBlob, 'refCount' | 'createdAt'>): Promise<{ blob: StoredBlob; created: boolean }> {
+    const existing = this.blobs.get(blobData.objectKey);
+    const blob: StoredBlob = existing
+      ? { ...existing, refCount: existing.refCount + 1 }
+      : { ...blobData, hash: blobData.hash ?? null, refCount: 1, createdAt: new Date() };
+    this.blobs.set(blob.objectKey, blob);
+    return { blob, created: !existing };
+  }
+
+  async getBlob(objectKey: string): Promise<StoredBlob | undefined> {
+    return this.blobs.get(objectKey);
+  }
+
+  async releaseBlob(objectKey: string): Promise<boolean> {
+    const blob = this.blobs.get(objectKey);
+    if (!blob) return true;
+    if (blob.refCount > 1) {
+      this.blobs.set(objectKey, { ...blob, refCount: blob.refCount - 1 });
+      return false;
+    }
+    this.blobs.delete(objectKey);
+    await this.deleteDataKeys(objectKey);
+    return true;
+  }
+
+  async getUserKeys(userId?: string): Promise<UserKey[]> {
+    return Array.from(this.userKeys.values())
+      .filter((key) => !userId || key.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createUserKey(keyData: Omit<InsertUserKey, 'id' | 'createdAt'>): Promise<UserKey> {
+    const key: UserKey = { ...keyData, id: this.nextUserKeyId++, createdAt: new Date() };
+    this.userKeys.set(key.id, key);
+    return key;
+  }
+
+  async updateUserKey(id: number, keyData: Pick<UserKey, 'wrappedKey' | 'masterKeyId'>): Promise<void> {
+    const key = this.userKeys.get(id);
+    if (key) this.userKeys.set(id, { ...key, ...keyData });
+  }
+
+  async replaceUserKeys(
+    userId: string,
+    keyData: Omit<InsertUserKey, 'id' | 'createdAt'>,
+    rewrap: (dataKey: DataKey, oldKey: UserKey) => string,
+  ): Promise<number> {
+    const oldKeys = await this.getUserKeys(userId);
+    const key = await this.createUserKey(keyData);
+    let moved = 0;
+    this.dataKeys = this.dataKeys.map((dataKey) => {
+      const oldKey = oldKeys.find((candidate) => candidate.id === dataKey.userKeyId);
+      if (!oldKey) return dataKey;
+      moved++;
+      return { ...dataKey, userKeyId: key.id, wrappedKey: rewrap(dataKey, oldKey) };
+    });
+    oldKeys.forEach((oldKey) => this.userKeys.delete(oldKey.id));
+    return moved;
+  }
+
+  async getDataKeys(objectKey: string): Promise<DataKey[]> {
+    return this.dataKeys.filter((key) => key.objectKey === objectKey);
+  }
+
+  async setDataKey(keyData: Omit<InsertDataKey, 'createdAt'>): Promise<DataKey> {
+    const existing = this.dataKeys.find(
+      (key) => key.objectKey === keyData.objectKey && key.userId === keyData.userId,
+    );
+    const key: DataKey = { ...keyData, iv: keyData.iv ?? null, createdAt: existing?.createdAt ?? new Date() };
+    this.dataKeys = [...this.dataKeys.filter((other) => other !== existing), key];
+    return key;
+  }
+
+  async deleteDataKeys(objectKey: string): Promise<void> {
+    this.dataKeys = this.dataKeys.filter((key) => key.objectKey !== objectKey);
+  }
+
+  async createUpload(userId: string, uploadData: Omit<InsertUpload, 'userId'>): Promise<Upload> {
+    const now = new Date();
+    const upload: Upload = {
+      mimeType: null,
+      offset: 0,
+      chunkSizes: [],
+      tags: [],
+      workspaceId: null,
+      createdAt: now,
+      updatedAt: now,
+      ...withoutUndefined(uploadData),
+      id: uploadData.id,
+      userId,
+      fileName: uploadData.fileName,
+      size: uploadData.size,
+      expiresAt: uploadData.expiresAt,
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  async getUpload(userId: string, id: string): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    return upload?.userId === userId ? upload : undefined;
+  }
+
+  async appendUploadChunk(userId: string, id: string, expectedOffset: number, chunkSize: number): Promise<Upload | undefined> {
+    const existing = await this.getUpload(userId, id);
+    if (!existing || existing.offset !== expectedOffset) return undefined;
+
+    const upload: Upload = {
+      ...existing,
+      offset: existing.offset + chunkSize,
+      chunkSizes: [...existing.chunkSizes, chunkSize],
+      updatedAt: new Date(),
+    };
+    this.uploads.set(id, upload);
+    return upload;
+  }
+
+  async deleteUpload(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getUpload(userId, id))) return false;
+    return this.uploads.delete(id);
+  }
+
+  async deleteExpiredUploads(now: Date): Promise<Upload[]> {
+    const expired = Array.from(this.uploads.values()).filter((upload) => upload.expiresAt < now);
+    for (const upload of expired) {
+      this.uploads.delete(upload.id);
+    }
+    return expired;
+  }
+
+  async getUploadIds(): Promise<string[]> {
+    return Array.from(this.uploads.keys());
+  }
+
+  async createShareLink(userId: string, linkData: Omit<InsertShareLink, 'userId'>): Promise<ShareLink> {
+    const link: ShareLink = {
+      passwordHash: null,
+      expiresAt: null,
+      maxDownloads: null,
+      downloadCount: 0,
+      createdAt: new Date(),
+      ...withoutUndefined(linkData),
+      id: linkData.id,
+      itemId: linkData.itemId,
+      userId,
+    };
+    this.shareLinks.set(link.id, link);
+    return link;
+  }
+
+  async getShareLinks(userId: string, itemId: number): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter((link) => link.userId === userId && link.itemId === itemId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
+
+  async recordShareDownload(id: string): Promise<ShareLink | undefined> {
+    const existing = this.shareLinks.get(id);
+    if (!existing) return undefined;
+    if (existing.maxDownloads !== null && existing.downloadCount >= existing.maxDownloads) {
+      return undefined;
+    }
+
+    const link = { ...existing, downloadCount: existing.downloadCount + 1 };
+    this.shareLinks.set(id, link);
+    return link;
+  }
+
+  async deleteShareLink(userId: string, id: string): Promise<boolean> {
+    if (this.shareLinks.get(id)?.userId !== userId) return false;
+    return this.shareLinks.delete(id);
+  }
+
+  async createApiToken(userId: string, tokenData: Omit<InsertApiToken, 'userId'>): Promise<ApiToken> {
+    if (await this.getApiTokenByHash(tokenData.tokenHash)) {
+      throw new Error(`API token already exists: ${tokenData.tokenPrefix}`);
+    }
+
+    const token: ApiToken = {
+      lastUsedAt: null,
+      createdAt: new Date(),
+      ...withoutUndefined(tokenData),
+      id: tokenData.id,
+      name: tokenData.name,
+      tokenHash: tokenData.tokenHash,
+      tokenPrefix: tokenData.tokenPrefix,
+      scopes: tokenData.scopes,
+      userId,
+    };
+    this.apiTokens.set(token.id, token);
+    return token;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async touchApiToken(id: string, usedAt: Date): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) this.apiTokens.set(id, { ...token, lastUsedAt: usedAt });
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    if (this.apiTokens.get(id)?.userId !== userId) return false;
+    return this.apiTokens.delete(id);
+  }
+
+  async upsertUserSession(sessionData: Omit<InsertUserSession, 'createdAt'>): Promise<UserSession> {
+    const now = new Date();
+    const existing = this.userSessions.get(sessionData.sid);
+    const session: UserSession = {
+      createdAt: existing?.createdAt ?? now,
+      userAgent: null,
+      ipAddress: null,
+      lastSeenAt: now,
+      ...withoutUndefined(sessionData),
+      sid: sessionData.sid,
+      userId: existing?.userId ?? sessionData.userId,
+      device: sessionData.device,
+    };
+    this.userSessions.set(session.sid, session);
+    return session;
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return Array.from(this.userSessions.values())
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    this.userSessions.delete(sid);
+  }
+
+  async createWorkspace(userId: string, name: string): Promise<Workspace> {
+    const now = new Date();
+    const workspace: Workspace = {
+      id: this.nextWorkspaceId++,
+      name,
+      createdBy: userId,
+      requireTwoFactor: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.workspaces.set(workspace.id, workspace);
+    await this.setWorkspaceMember(workspace.id, userId, 'owner');
+    return workspace;
+  }
+
+  async getWorkspaces(userId: string): Promise<UserWorkspace[]> {
+    return this.workspaceMembers
+      .filter((member) => member.userId === userId)
+      .map((member) => ({ ...this.workspaces.get(member.workspaceId)!, role: member.role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWorkspaceRole(workspaceId: number, userId: string): Promise<WorkspaceRole | undefined> {
+    return this.workspaceMembers.find(
+      (member) => member.workspaceId === workspaceId && member.userId === userId,
+    )?.role;
+  }
+
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async updateWorkspace(id: number, changes: Partial<Pick<Workspace, 'name' | 'requireTwoFactor'>>): Promise<Workspace | undefined> {
+    const existing = this.workspaces.get(id);
+    if (!existing) return undefined;
+
+    const workspace = { ...existing, ...withoutUndefined(changes), updatedAt: new Date() };
+    this.workspaces.set(id, workspace);
+    return workspace;
+  }
+
+  async deleteWorkspace(id: number): Promise<boolean> {
+    // Mirrors the items.workspace_id foreign key, which has no cascade
+    if (Array.from(this.items.values()).some((item) => item.workspaceId === id)) {
+      return false;
+    }
+    this.workspaceMembers = this.workspaceMembers.filter((member) => member.workspaceId !== id);
+    return this.workspaces.delete(id);
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberDetails[]> {
+    return this.workspaceMembers
+      .filter((member) => member.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((member) => {
+        const user = this.users.get(member.userId);
+        return {
+          ...member,
+          email: user?.email ?? null,
+          firstName: user?.firstName ?? null,
+          lastName: user?.lastName ?? null,
+          profileImageUrl: user?.profileImageUrl ?? null,
+        };
+      });
+  }
+
+  async setWorkspaceMember(workspaceId: number, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    const existing = this.workspaceMembers.find(
+      (member) => member.workspaceId === workspaceId && member.userId === userId,
+    );
+    if (existing) {
+      existing.role = role;
+      return existing;
+    }
+
+    const member: WorkspaceMember = { workspaceId, userId, role, createdAt: new Date() };
+    this.workspaceMembers.push(member);
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: string): Promise<boolean> {
+    const remaining = this.workspaceMembers.filter(
+      (member) => !(member.workspaceId === workspaceId && member.userId === userId),
+    );
+    const removed = remaining.length < this.workspaceMembers.length;
+    this.workspaceMembers = remaining;
+    return removed;
+  }
+
+  async recordAuditEvent(eventData: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      actorId: null,
+      workspaceId: null,
+      itemId: null,
+      itemTitle: null,
+      changedFields: null,
+      details: null,
+      ipAddress: null,
+      userAgent: null,
+      createdAt: new Date(),
+      ...withoutUndefined(eventData),
+      id: this.auditEvents.length + 1,
+      action: eventData.action,
+      userId: eventData.userId,
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(userId: string, query: ActivityQuery): Promise<AuditEventDetails[]> {
+    const workspaceIds = new Set(
+      this.workspaceMembers.filter((member) => member.userId === userId).map((member) => member.workspaceId),
+    );
+
+    return this.auditEvents
+      .filter((event) => {
+        if (event.userId !== userId && !(event.workspaceId !== null && workspaceIds.has(event.workspaceId))) {
+          return false;
+        }
+        if (query.workspace && event.workspaceId !== query.workspace) return false;
+        if (query.action && event.action !== query.action) return false;
+        if (query.itemId && event.itemId !== query.itemId) return false;
+        if (query.from && event.createdAt < query.from) return false;
+        if (query.to && event.createdAt > query.to) return false;
+        if (query.before && event.id >= query.before) return false;
+        return true;
+      })
+      .reverse()
+      .slice(0, query.limit)
+      .map((event) => {
+        const actor = event.actorId ? this.users.get(event.actorId) : undefined;
+        return {
+          ...event,
+          actor: actor ? { email: actor.email, firstName: actor.firstName, lastName: actor.lastName } : null,
+        };
+      });
+  }
+
+  async hitRateLimit(key: string, windowMs: number, now: Date): Promise<RateLimit> {
+    const current = this.rateLimits.get(key);
+    const counter = current && current.resetAt > now
+      ? { ...current, count: current.count + 1 }
+      : { key, count: 1, resetAt: new Date(now.getTime() + windowMs) };
+    this.rateLimits.set(key, counter);
+    return counter;
+  }
+
+  async deleteExpiredRateLimits(now: Date): Promise<void> {
+    Array.from(this.rateLimits.values())
+      .filter((counter) => counter.resetAt <= now)
+      .forEach((counter) => this.rateLimits.delete(counter.key));
+  }
+}
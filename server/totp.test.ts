@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateTotpSecret, totpCode, totpStep, totpUri, verifyTotp } from "./totp";
+
+// The SHA-1 seed of RFC 6238 appendix B, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("totpCode", () => {
+  // RFC 6238 test vectors, cut to the 6 digits apps show
+  const vectors: [number, string][] = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ];
+
+  for (const [seconds, code] of vectors) {
+    it(`matches the RFC 6238 code at ${seconds}s`, () => {
+      assert.equal(totpCode(RFC_SECRET, totpStep(seconds * 1000)), code);
+    });
+  }
+
+  it("accepts lowercase secrets with padding", () => {
+    assert.equal(totpCode(RFC_SECRET.toLowerCase() + "====", 1), totpCode(RFC_SECRET, 1));
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1234567890 * 1000;
+
+  it("returns the step of a current code", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "005924", now), totpStep(now));
+  });
+
+  it("accepts codes one step either side", () => {
+    const step = totpStep(now);
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now), step + 1);
+  });
+
+  it("rejects codes further away", () => {
+    const step = totpStep(now);
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now), undefined);
+    assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now), undefined);
+  });
+
+  it("ignores spaces but rejects malformed codes", () => {
+    assert.equal(verifyTotp(RFC_SECRET, "005 924", now), totpStep(now));
+    assert.equal(verifyTotp(RFC_SECRET, "05924", now), undefined);
+    assert.equal(verifyTotp(RFC_SECRET, "00592a", now), undefined);
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("makes 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.notEqual(generateTotpSecret(), secret);
+  });
+});
+
+describe("totpUri", () => {
+  it("names the issuer and account", () => {
+    const uri = new URL(totpUri("ABC", "InfoSpace", "a b@example.com"));
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.host, "totp");
+    assert.equal(decodeURIComponent(uri.pathname), "/InfoSpace:a b@example.com");
+    assert.equal(uri.searchParams.get("secret"), "ABC");
+    assert.equal(uri.searchParams.get("period"), "30");
+  });
+});
@@ -0,0 +1,61 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LocalAccount } from "@shared/schema";
+import { storage } from "./storage-final";
+import { generateTotpSecret, totpCode, totpStep } from "./totp";
+import { generateRecoveryCodes, hashRecoveryCode, useCode } from "./twoFactor";
+
+describe("recovery codes", () => {
+  it("makes ten distinct codes in two groups", () => {
+    const codes = generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    for (const code of codes) {
+      assert.match(code, /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    }
+  });
+
+  it("hashes codes regardless of case and separators", () => {
+    assert.equal(hashRecoveryCode("3F9A1 C07BE"), hashRecoveryCode("3f9a1-c07be"));
+    assert.notEqual(hashRecoveryCode("3f9a1-c07bf"), hashRecoveryCode("3f9a1-c07be"));
+  });
+});
+
+describe("useCode", () => {
+  const userId = "two-factor-user";
+  const secret = generateTotpSecret();
+  const codes = generateRecoveryCodes();
+  let account: LocalAccount;
+
+  before(async () => {
+    const email = "two-factor@example.com";
+    await storage.createLocalAccount({ id: userId, email }, { email, passwordHash: "unused" });
+    account = (await storage.updateLocalAccount(userId, {
+      totpSecret: secret,
+      totpEnabledAt: new Date(),
+      recoveryCodeHashes: codes.map(hashRecoveryCode),
+    }))!;
+  });
+
+  it("accepts a TOTP code once", async () => {
+    const code = totpCode(secret, totpStep());
+    assert.equal(await useCode(account, code), true);
+    assert.equal(await useCode(account, code), false);
+  });
+
+  it("accepts each recovery code once", async () => {
+    assert.equal(await useCode(account, codes[0].toUpperCase()), true);
+    assert.equal(await useCode(account, codes[0]), false);
+    assert.equal(await useCode(account, codes[1]), true);
+    assert.equal((await storage.getLocalAccountByUserId(userId))?.recoveryCodeHashes?.length, 8);
+  });
+
+  it("rejects unknown codes", async () => {
+    assert.equal(await useCode(account, "00000-00000"), false);
+  });
+
+  it("rejects every code while two-factor authentication is off", async () => {
+    const off = { ...account, totpEnabledAt: null };
+    assert.equal(await useCode(off, codes[2]), false);
+  });
+});
@@ -0,0 +1,281 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import type { Express, Request } from "express";
+import { twoFactorCodeSchema, type LocalAccount } from "@shared/schema";
+import { storage } from "./storage-final";
+import { createSessionUser, isAuthenticated, signIn, type SessionUser } from "./auth";
+import { recordAudit } from "./audit";
+import { rateLimit } from "./rateLimit";
+import { generateTotpSecret, totpUri, verifyTotp } from "./totp";
+
+// Two-factor authentication for email and password accounts:
+//   GET  /api/auth/2fa                  whether it is on, and how many recovery codes are left
+//   POST /api/auth/2fa/setup            start enrolling: a new secret and its QR code
+//   POST /api/auth/2fa/enable           confirm with a code from the app; returns recovery codes
+//   POST /api/auth/2fa/recovery-codes   replace the recovery codes
+//   POST /api/auth/2fa/disable          turn it off
+//   POST /api/auth/local/2fa            second step of signing in
+// Signing in with the password of an account that has it on leaves the
+// session waiting for a code; isAuthenticated turns such sessions away until
+// /api/auth/local/2fa accepts a TOTP code or an unused recovery code.
+
+const ISSUER = "InfoSpace";
+const RECOVERY_CODE_COUNT = 10;
+// How long the second step of signing in, and enrolling, may take
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const SETUP_TTL_MS = 15 * 60 * 1000;
+// Wrong codes per sign-in before the password has to be entered again
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export function isTwoFactorEnabled(account: LocalAccount | undefined): boolean {
+  return !!account?.totpEnabledAt && !!account.totpSecret;
+}
+
+export async function hasTwoFactor(userId: string): Promise<boolean> {
+  return isTwoFactorEnabled(await storage.getLocalAccountByUserId(userId));
+}
+
+// Whether the user meets a workspace's two-factor requirement. Users who
+// sign in through OIDC or Replit have no password here, so their identity
+// provider is in charge of their second factor.
+export async function meetsTwoFactorRequirement(userId: string): Promise<boolean> {
+  const account = await storage.getLocalAccountByUserId(userId);
+  return !account || isTwoFactorEnabled(account);
+}
+
+// Signs the user in pending a second factor; regenerates the session like signIn
+export async function startTwoFactorChallenge(req: Request, user: SessionUser): Promise<void> {
+  const pending: SessionUser = {
+    ...user,
+    expires_at: Math.floor((Date.now() + CHALLENGE_TTL_MS) / 1000),
+    twoFactorPending: true,
+  };
+  await new Promise<void>((resolve, reject) => {
+    req.login(pending, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Ten characters in two groups, like "3f9a1-c07be"; stored as SHA-256 only
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+// Checks a TOTP code or recovery code against the account and uses it up
+export async function useCode(account: LocalAccount, code: string): Promise<boolean> {
+  if (!isTwoFactorEnabled(account)) return false;
+  const step = verifyTotp(account.totpSecret!, code);
+  if (step !== undefined) {
+    return storage.useTotpStep(account.userId, step);
+  }
+  return storage.useRecoveryCode(account.userId, hashRecoveryCode(code));
+}
+
+// Names of the user's workspaces that require two-factor authentication
+async function requiringWorkspaces(userId: string): Promise<string[]> {
+  const workspaces = await storage.getWorkspaces(userId);
+  return workspaces.filter((workspace) => workspace.requireTwoFactor).map((workspace) => workspace.name);
+}
+
+export function registerTwoFactorRoutes(app: Express) {
+  app.post("/api/auth/local/2fa", async (req: any, res) => {
+    try {
+      const user = req.user as SessionUser | undefined;
+      if (!user?.twoFactorPending || Date.now() / 1000 > user.expires_at) {
+        return res.status(401).json({ message: "Sign in with your password first" });
+      }
+
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validation.error.issues
+        });
+      }
+
+      const account = await storage.getLocalAccountByUserId(user.claims.sub);
+      if (!account || !(await useCode(account, validation.data.code))) {
+        await recordAudit(req, {
+          action: "auth.login_failed",
+          actorId: null,
+          details: { provider: user.provider, factor: "totp" },
+        });
+        req.session.twoFactorAttempts = (req.session.twoFactorAttempts ?? 0) + 1;
+        if (req.session.twoFactorAttempts >= MAX_CHALLENGE_ATTEMPTS) {
+          await new Promise<void>((resolve, reject) => req.logout((err: unknown) => (err ? reject(err) : resolve())));
+          return res.status(401).json({ message: "Too many wrong codes. Sign in again." });
+        }
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      await signIn(req, createSessionUser(user.provider, user.claims));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error checking two-factor code:", error);
+      res.status(500).json({ message: "Failed to check code" });
+    }
+  });
+
+  // Managed from a signed-in browser, not with API tokens
+  app.use("/api/auth/2fa", isAuthenticated, (req: any, res, next) => {
+    if (req.user.tokenId) {
+      return res.status(403).json({ message: "API tokens cannot manage two-factor authentication" });
+    }
+    next();
+  });
+
+  app.get("/api/auth/2fa", async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const account = await storage.getLocalAccountByUserId(userId);
+      res.json({
+        // Accounts of other providers use their identity provider's sign-in
+        available: !!account,
+        enabled: isTwoFactorEnabled(account),
+        recoveryCodesLeft: account?.recoveryCodeHashes?.length ?? 0,
+        requiredBy: await requiringWorkspaces(userId),
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post("/api/auth/2fa/setup", async (req: any, res) => {
+    try {
+      const account = await storage.getLocalAccountByUserId(req.user.claims.sub);
+      if (!account) {
+        return res.status(400).json({ message: "Two-factor authentication is only for email and password accounts" });
+      }
+      if (isTwoFactorEnabled(account)) {
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      }
+
+      // Kept in the session until a code confirms the app has it
+      const secret = generateTotpSecret();
+      req.session.totpSetup = { secret, expiresAt: Date.now() + SETUP_TTL_MS };
+      const uri = totpUri(secret, ISSUER, account.email);
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ secret, uri, qrCode: await QRCode.toDataURL(uri) });
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", rateLimit("login"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validation.error.issues
+        });
+      }
+
+      const setup = req.session.totpSetup as { secret: string; expiresAt: number } | undefined;
+      if (!setup || Date.now() > setup.expiresAt) {
+        return res.status(400).json({ message: "Setup has expired. Start again." });
+      }
+      const step = verifyTotp(setup.secret, validation.data.code);
+      if (step === undefined) {
+        return res.status(400).json({ message: "Invalid code. Check the time on your device and try again." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      const account = await storage.updateLocalAccount(userId, {
+        totpSecret: setup.secret,
+        totpEnabledAt: new Date(),
+        totpLastStep: step,
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      });
+      if (!account) {
+        return res.status(400).json({ message: "Two-factor authentication is only for email and password accounts" });
+      }
+      delete req.session.totpSetup;
+
+      await recordAudit(req, { action: "auth.2fa_enable" });
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", rateLimit("login"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validation.error.issues
+        });
+      }
+
+      const account = await storage.getLocalAccountByUserId(userId);
+      if (!isTwoFactorEnabled(account)) {
+        return res.status(409).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await useCode(account!, validation.data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateLocalAccount(userId, { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) });
+      res.setHeader("Cache-Control", "no-store");
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error replacing recovery codes:", error);
+      res.status(500).json({ message: "Failed to replace recovery codes" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", rateLimit("login"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validation = twoFactorCodeSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: validation.error.issues
+        });
+      }
+
+      const account = await storage.getLocalAccountByUserId(userId);
+      if (!isTwoFactorEnabled(account)) {
+        return res.status(409).json({ message: "Two-factor authentication is off" });
+      }
+      const requiredBy = await requiringWorkspaces(userId);
+      if (requiredBy.length > 0) {
+        return res.status(409).json({
+          message: `Two-factor authentication is required by ${requiredBy.join(", ")}`,
+        });
+      }
+      if (!(await useCode(account!, validation.data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      await storage.updateLocalAccount(userId, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        recoveryCodeHashes: null,
+      });
+      await recordAudit(req, { action: "auth.2fa_disable" });
+      res.json({ success: true, message: "Two-factor authentication turned off" });
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+    }
+  });
+}
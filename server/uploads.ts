@@ -0,0 +1,403 @@
+import type { Express } from "express";
+import { Readable, Transform, pipeline } from "stream";
+import { nanoid } from "nanoid";
+import { createUploadSchema, type Upload } from "@shared/schema";
+import { storage } from "./storage-final";
+import { blobStore } from "./blobStore";
+import { isAuthenticated } from "./auth";
+import { ContentBusyError, contentKey, hashStream, storeContent, releaseContent } from "./contentStore";
+import { assertWithinQuota, QuotaExceededError } from "./quota";
+import { requireWorkspaceRole, resolveItemWorkspace, WorkspaceAccessError } from "./workspaces";
+import { recordAudit } from "./audit";
+import { rateLimit } from "./rateLimit";
+import { queueScan } from "./scanning";
+import {
+  decryptChunk,
+  encryptChunk,
+  getContentKey,
+  grantContentKey,
+  isFileEncryptionEnabled,
+  newContentKey,
+} from "./fileEncryption";
+
+// Resumable uploads, loosely following tus (https://tus.io):
+//   POST   /api/uploads               create a session for a file of known size
+//   HEAD   /api/uploads/:id           current offset in the Upload-Offset header
+//   PATCH  /api/uploads/:id           append one chunk at Upload-Offset
+//   POST   /api/uploads/:id/finalize  store the joined chunks and create the file item
+//   DELETE /api/uploads/:id           abandon the upload
+// Chunks are stored as separate blobs because no blob store can append.
+// With encryption at rest, each upload has its own data key for its chunks.
+
+const MAX_UPLOAD_SIZE = parseInt(process.env.UPLOAD_MAX_SIZE ?? "") || 1024 * 1024 * 1024; // 1GB
+const CHUNK_SIZE = parseInt(process.env.UPLOAD_CHUNK_SIZE ?? "") || 8 * 1024 * 1024; // 8MB
+const UPLOAD_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+const CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+class ChunkTooLargeError extends Error {
+  constructor() {
+    super("Chunk exceeds the allowed size");
+    this.name = "ChunkTooLargeError";
+  }
+}
+
+const CHUNK_ROOT = "uploads/";
+
+function chunkPrefix(uploadId: string): string {
+  return `${CHUNK_ROOT}${uploadId}/`;
+}
+
+// Zero-padded so chunk keys sort in byte order
+function chunkKey(uploadId: string, offset: number): string {
+  return `${chunkPrefix(uploadId)}${String(offset).padStart(12, "0")}`;
+}
+
+function describeUpload(upload: Upload) {
+  return {
+    id: upload.id,
+    fileName: upload.fileName,
+    size: upload.size,
+    offset: upload.offset,
+    chunkSize: CHUNK_SIZE,
+    expiresAt: upload.expiresAt,
+  };
+}
+
+// Also removes chunks left behind by interrupted PATCH requests
+async function deleteChunks(uploadId: string): Promise<void> {
+  const chunks = await blobStore.list(chunkPrefix(uploadId));
+  for (const chunk of chunks) {
+    await blobStore.delete(chunk.key);
+  }
+  await storage.deleteDataKeys(chunkPrefix(uploadId));
+}
+
+async function* readChunks(upload: Upload): AsyncGenerator<Buffer> {
+  const key = await getContentKey(chunkPrefix(upload.id));
+  let offset = 0;
+  for (const size of upload.chunkSizes) {
+    const chunk = await blobStore.getStream(chunkKey(upload.id, offset));
+    yield* key ? decryptChunk(key.key, chunk) : chunk;
+    offset += size;
+  }
+}
+
+// Pass bytes through, failing once more than `limit` have been seen
+function limitBytes(limit: number) {
+  let received = 0;
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > limit) {
+        callback(new ChunkTooLargeError());
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+  return { stream, received: () => received };
+}
+
+// Finalizing claims an upload before storing its chunks as the file and
+// deleting them, so a restart in between leaves chunks no upload refers to.
+// Chunks written in the last hour are spared, as another server may still be
+// finalizing them.
+const ORPHANED_CHUNK_AGE = 60 * 60 * 1000;
+
+async function purgeOrphanedChunks(): Promise<void> {
+  // Listed before the uploads, so an upload started meanwhile is not taken for an orphan
+  const chunks = await blobStore.list(CHUNK_ROOT);
+  const live = new Set(await storage.getUploadIds());
+  const cutoff = Date.now() - ORPHANED_CHUNK_AGE;
+
+  const orphaned = new Set<string>();
+  const recent = new Set<string>();
+  for (const chunk of chunks) {
+    const uploadId = chunk.key.slice(CHUNK_ROOT.length).split("/")[0];
+    if (live.has(uploadId)) continue;
+    orphaned.add(uploadId);
+    if (chunk.lastModified && chunk.lastModified.getTime() > cutoff) {
+      recent.add(uploadId);
+    }
+  }
+
+  for (const uploadId of Array.from(orphaned).filter((id) => !recent.has(id))) {
+    try {
+      await deleteChunks(uploadId);
+    } catch (error) {
+      console.error("Error deleting orphaned upload chunks:", error);
+    }
+  }
+}
+
+async function purgeExpiredUploads(): Promise<void> {
+  const expired = await storage.deleteExpiredUploads(new Date());
+  for (const upload of expired) {
+    try {
+      await deleteChunks(upload.id);
+    } catch (error) {
+      console.error("Error deleting expired upload chunks:", error);
+    }
+  }
+}
+
+export function registerUploadRoutes(app: Express) {
+  // Start a resumable upload
+  app.post("/api/uploads", isAuthenticated, rateLimit("upload"), async (req: any, res) => {
+    try {
+      const validation = createUploadSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid upload data",
+          errors: validation.error.issues
+        });
+      }
+
+      const { fileName, mimeType, size, tags } = validation.data;
+      if (size > MAX_UPLOAD_SIZE) {
+        return res.status(413).json({ message: "File is too large" });
+      }
+
+      const userId = req.user.claims.sub;
+      const workspaceId = await resolveItemWorkspace(userId, validation.data.workspaceId);
+      await assertWithinQuota(userId, size);
+
+      await purgeExpiredUploads();
+
+      const upload = await storage.createUpload(userId, {
+        id: nanoid(),
+        fileName,
+        mimeType: mimeType || "application/octet-stream",
+        size,
+        tags,
+        workspaceId,
+        expiresAt: new Date(Date.now() + UPLOAD_TTL),
+      });
+      if (isFileEncryptionEnabled()) {
+        await grantContentKey(chunkPrefix(upload.id), userId, newContentKey({ withIv: false }));
+      }
+
+      res.status(201)
+        .setHeader("Location", `/api/uploads/${upload.id}`)
+        .setHeader("Upload-Offset", String(upload.offset))
+        .json(describeUpload(upload));
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating upload:", error);
+      res.status(500).json({ message: "Failed to create upload" });
+    }
+  });
+
+  // Report how many bytes the server has, so a client can resume
+  app.head("/api/uploads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const upload = await storage.getUpload(req.user.claims.sub, req.params.id);
+      if (!upload || upload.expiresAt < new Date()) {
+        return res.status(404).end();
+      }
+
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Upload-Offset", String(upload.offset));
+      res.setHeader("Upload-Length", String(upload.size));
+      res.status(200).end();
+    } catch (error) {
+      res.status(500).end();
+    }
+  });
+
+  app.get("/api/uploads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const upload = await storage.getUpload(req.user.claims.sub, req.params.id);
+      if (!upload || upload.expiresAt < new Date()) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      res.setHeader("Cache-Control", "no-store");
+      res.json(describeUpload(upload));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  // Append one chunk
+  app.patch("/api/uploads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      if (!req.is(CHUNK_CONTENT_TYPE)) {
+        return res.status(415).json({ message: `Content-Type must be ${CHUNK_CONTENT_TYPE}` });
+      }
+
+      const offset = parseInt(req.get("Upload-Offset") ?? "");
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ message: "Missing or invalid Upload-Offset header" });
+      }
+
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(userId, req.params.id);
+      if (!upload || upload.expiresAt < new Date()) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (offset !== upload.offset) {
+        res.setHeader("Upload-Offset", String(upload.offset));
+        return res.status(409).json({ message: "Upload-Offset does not match", offset: upload.offset });
+      }
+
+      const limit = Math.min(CHUNK_SIZE, upload.size - upload.offset);
+      const declaredLength = parseInt(req.get("Content-Length") ?? "");
+      if (declaredLength > limit) {
+        return res.status(413).json({ message: "Chunk is too large" });
+      }
+
+      const counter = limitBytes(limit);
+      const key = await getContentKey(chunkPrefix(upload.id));
+      const body = pipeline(req, counter.stream, () => {});
+      try {
+        await blobStore.put(chunkKey(upload.id, offset), key ? encryptChunk(key.key, body) : body);
+      } catch (error) {
+        if (error instanceof ChunkTooLargeError) {
+          return res.status(413).json({ message: "Chunk is too large" });
+        }
+        throw error;
+      }
+
+      // An empty chunk changes nothing; its blob is overwritten by the next one
+      if (counter.received() === 0) {
+        res.setHeader("Upload-Offset", String(upload.offset));
+        return res.status(204).end();
+      }
+
+      const updated = await storage.appendUploadChunk(userId, upload.id, offset, counter.received());
+      if (!updated) {
+        return res.status(409).json({ message: "Upload was modified concurrently" });
+      }
+
+      res.setHeader("Upload-Offset", String(updated.offset));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error storing upload chunk:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to store chunk" });
+      }
+    }
+  });
+
+  // Join the chunks into the final blob and create the file item
+  app.post("/api/uploads/:id/finalize", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const upload = await storage.getUpload(userId, req.params.id);
+      if (!upload || upload.expiresAt < new Date()) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (upload.offset !== upload.size) {
+        return res.status(409).json({ message: "Upload is incomplete", offset: upload.offset });
+      }
+
+      // Checked again in case other items were added since the upload began,
+      // or the user lost edit access to the target workspace
+      await assertWithinQuota(userId, upload.size);
+      if (upload.workspaceId !== null) {
+        await requireWorkspaceRole(userId, upload.workspaceId, "editor");
+      }
+
+      // Claim the session first so two finalize calls cannot both create an item
+      if (!(await storage.deleteUpload(userId, upload.id))) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      let fileKey: string | undefined;
+      let item;
+      let duplicate;
+      try {
+        // Hash the chunks first; they are only copied if the content is new
+        const digest = await hashStream(readChunks(upload));
+        if (digest.size !== upload.size) {
+          throw new Error(`Upload ${upload.id} has ${digest.size} bytes, expected ${upload.size}`);
+        }
+
+        duplicate = await storage.getItemByObjectKey(userId, contentKey(digest.hash), upload.workspaceId);
+        fileKey = await storeContent({
+          ...digest,
+          userId,
+          contentType: upload.mimeType ?? undefined,
+          body: () => Readable.from(readChunks(upload)),
+        });
+
+        item = await storage.createItem(userId, {
+          title: upload.fileName,
+          content: null,
+          type: 'file',
+          fileUrl: `/api/files/${fileKey}`,
+          fileName: upload.fileName,
+          fileSize: upload.size,
+          mimeType: upload.mimeType,
+          objectKey: fileKey,
+          workspaceId: upload.workspaceId,
+          tags: upload.tags ?? [],
+          metadata: null,
+          scanStatus: 'pending',
+          extractionStatus: 'pending',
+        });
+      } catch (error) {
+        // Give the session back so the client can retry finalizing
+        if (fileKey) {
+          await releaseContent(fileKey).catch(() => {});
+        }
+        await storage.createUpload(userId, upload);
+        throw error;
+      }
+
+      try {
+        await deleteChunks(upload.id);
+      } catch (error) {
+        console.error("Error deleting upload chunks:", error);
+      }
+
+      queueScan(item);
+      await recordAudit(req, { action: "item.create", item });
+      res.json({
+        ...item,
+        duplicateOf: duplicate ? { id: duplicate.id, title: duplicate.title } : null,
+      });
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(413).json({ message: error.message });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ContentBusyError) {
+        res.setHeader("Retry-After", "5");
+        return res.status(503).json({ message: error.message });
+      }
+      console.error("Error finalizing upload:", error);
+      res.status(500).json({ message: "Failed to finalize upload" });
+    }
+  });
+
+  app.delete("/api/uploads/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const success = await storage.deleteUpload(req.user.claims.sub, req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      await deleteChunks(req.params.id);
+      res.json({ success: true, message: "Upload cancelled" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to cancel upload" });
+    }
+  });
+
+  // Chunks left behind by a restart during finalizing
+  purgeOrphanedChunks().catch((error) => {
+    console.error("Error deleting orphaned upload chunks:", error);
+  });
+}
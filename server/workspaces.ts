@@ -0,0 +1,313 @@
+import type { Express } from "express";
+import {
+  addWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  updateWorkspaceSchema,
+  workspaceNameSchema,
+  type Item,
+  type WorkspaceRole,
+} from "@shared/schema";
+import { storage } from "./storage-final";
+import { isAuthenticated } from "./auth";
+import { recordAudit } from "./audit";
+import { meetsTwoFactorRequirement } from "./twoFactor";
+
+// Team workspaces:
+//   GET    /api/workspaces                         workspaces the user belongs to
+//   POST   /api/workspaces                         create one, owned by the user
+//   PATCH  /api/workspaces/:id                     rename, or require two-factor authentication (owner)
+//   DELETE /api/workspaces/:id                     delete an empty workspace (owner)
+//   GET    /api/workspaces/:id/members             list members (any member)
+//   POST   /api/workspaces/:id/members             add a member by email (owner)
+//   PATCH  /api/workspaces/:id/members/:userId     change a role (owner)
+//   DELETE /api/workspaces/:id/members/:userId     remove a member (owner), or leave
+// Items are listed with ?workspace=<id> and created with a workspaceId field.
+
+export class WorkspaceAccessError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "WorkspaceAccessError";
+  }
+}
+
+const roleRank: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// Throws unless the user holds at least `role`, and meets the workspace's
+// two-factor requirement if it has one. Non-members get a 404, so
+// workspace ids cannot be probed.
+export async function requireWorkspaceRole(
+  userId: string,
+  workspaceId: number,
+  role: WorkspaceRole,
+): Promise<WorkspaceRole> {
+  const actual = await storage.getWorkspaceRole(workspaceId, userId);
+  if (!actual) {
+    throw new WorkspaceAccessError(404, "Workspace not found");
+  }
+  if (roleRank[actual] < roleRank[role]) {
+    throw new WorkspaceAccessError(403, `This needs ${role} access to the workspace`);
+  }
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (workspace?.requireTwoFactor && !(await meetsTwoFactorRequirement(userId))) {
+    throw new WorkspaceAccessError(
+      403,
+      "This workspace requires two-factor authentication. Turn it on in Settings to continue.",
+    );
+  }
+  return actual;
+}
+
+// A workspace id from a query string or request body; null means personal items
+export function parseWorkspaceId(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new WorkspaceAccessError(400, "Invalid workspace id");
+  }
+  return id;
+}
+
+// Where a new item goes: the personal space, or a workspace the user may edit
+export async function resolveItemWorkspace(userId: string, value: unknown): Promise<number | null> {
+  const workspaceId = parseWorkspaceId(value);
+  if (workspaceId !== null) {
+    await requireWorkspaceRole(userId, workspaceId, "editor");
+  }
+  return workspaceId;
+}
+
+// An item the user may act on with `role`. Personal items only ever belong
+// to their creator; workspace items need the role in their workspace.
+export async function authorizeItem(userId: string, itemId: number, role: WorkspaceRole): Promise<Item> {
+  const item = await storage.getItem(userId, itemId);
+  if (!item) {
+    throw new WorkspaceAccessError(404, "Item not found");
+  }
+  if (item.workspaceId !== null) {
+    await requireWorkspaceRole(userId, item.workspaceId, role);
+  }
+  return item;
+}
+
+// The item through which the user may read an object shared by several
+// items: their personal one if any, else the first workspace item they may
+// view. Throws the last refusal if there were only refusals.
+export async function authorizeObjectKey(userId: string, objectKey: string): Promise<Item | undefined> {
+  let refusal: WorkspaceAccessError | undefined;
+  for (const item of await storage.getItemsByObjectKey(userId, objectKey)) {
+    if (item.workspaceId === null) return item;
+    try {
+      await requireWorkspaceRole(userId, item.workspaceId, "viewer");
+      return item;
+    } catch (error) {
+      if (!(error instanceof WorkspaceAccessError)) throw error;
+      refusal = error;
+    }
+  }
+  if (refusal) throw refusal;
+  return undefined;
+}
+
+// Owners may not leave a workspace without an owner
+async function isLastOwner(workspaceId: number, userId: string): Promise<boolean> {
+  const members = await storage.getWorkspaceMembers(workspaceId);
+  const owners = members.filter((member) => member.role === "owner");
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+export function registerWorkspaceRoutes(app: Express) {
+  app.get("/api/workspaces", isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getWorkspaces(req.user.claims.sub));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", isAuthenticated, async (req: any, res) => {
+    try {
+      const validation = workspaceNameSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid workspace",
+          errors: validation.error.issues
+        });
+      }
+
+      const workspace = await storage.createWorkspace(req.user.claims.sub, validation.data.name);
+      res.status(201).json({ ...workspace, role: "owner" });
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = parseWorkspaceId(req.params.id)!;
+      await requireWorkspaceRole(userId, workspaceId, "owner");
+
+      const validation = updateWorkspaceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid workspace",
+          errors: validation.error.issues
+        });
+      }
+
+      // Otherwise the owner would lock themselves out
+      const { requireTwoFactor } = validation.data;
+      if (requireTwoFactor && !(await meetsTwoFactorRequirement(userId))) {
+        return res.status(409).json({ message: "Turn on two-factor authentication for your own account first" });
+      }
+
+      const workspace = await storage.updateWorkspace(workspaceId, validation.data);
+      if (!workspace) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      if (requireTwoFactor !== undefined) {
+        await recordAudit(req, { action: "workspace.update", workspaceId, details: { requireTwoFactor } });
+      }
+      res.json({ ...workspace, role: "owner" });
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update workspace" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = parseWorkspaceId(req.params.id)!;
+      await requireWorkspaceRole(userId, workspaceId, "owner");
+
+      // Items hold blob references, so they are deleted one by one first
+      const remaining = await storage.getItems(userId, undefined, undefined, workspaceId);
+      if (remaining.length > 0) {
+        return res.status(409).json({ message: "Delete the workspace's items first" });
+      }
+
+      const success = await storage.deleteWorkspace(workspaceId);
+      if (!success) {
+        return res.status(404).json({ message: "Workspace not found" });
+      }
+      res.json({ success: true, message: "Workspace deleted" });
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:id/members", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseWorkspaceId(req.params.id)!;
+      await requireWorkspaceRole(req.user.claims.sub, workspaceId, "viewer");
+      res.json(await storage.getWorkspaceMembers(workspaceId));
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch workspace members" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/members", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseWorkspaceId(req.params.id)!;
+      await requireWorkspaceRole(req.user.claims.sub, workspaceId, "owner");
+
+      const validation = addWorkspaceMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid member",
+          errors: validation.error.issues
+        });
+      }
+
+      // Members must have signed in at least once
+      const user = await storage.getUserByEmail(validation.data.email);
+      if (!user) {
+        return res.status(404).json({ message: "No user with this email has signed in yet" });
+      }
+      if (await storage.getWorkspaceRole(workspaceId, user.id)) {
+        return res.status(409).json({ message: "This user is already a member" });
+      }
+
+      const member = await storage.setWorkspaceMember(workspaceId, user.id, validation.data.role);
+      res.status(201).json(member);
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error adding workspace member:", error);
+      res.status(500).json({ message: "Failed to add workspace member" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const workspaceId = parseWorkspaceId(req.params.id)!;
+      const memberId = req.params.userId;
+      await requireWorkspaceRole(req.user.claims.sub, workspaceId, "owner");
+
+      const validation = updateWorkspaceMemberSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: "Invalid role",
+          errors: validation.error.issues
+        });
+      }
+
+      if (!(await storage.getWorkspaceRole(workspaceId, memberId))) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (validation.data.role !== "owner" && (await isLastOwner(workspaceId, memberId))) {
+        return res.status(409).json({ message: "A workspace needs at least one owner" });
+      }
+
+      const member = await storage.setWorkspaceMember(workspaceId, memberId, validation.data.role);
+      res.json(member);
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating workspace member:", error);
+      res.status(500).json({ message: "Failed to update workspace member" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workspaceId = parseWorkspaceId(req.params.id)!;
+      const memberId = req.params.userId;
+      // Anyone may leave, even without meeting a two-factor requirement;
+      // removing someone else takes an owner
+      if (memberId !== userId) {
+        await requireWorkspaceRole(userId, workspaceId, "owner");
+      } else if (!(await storage.getWorkspaceRole(workspaceId, userId))) {
+        throw new WorkspaceAccessError(404, "Workspace not found");
+      }
+
+      if (await isLastOwner(workspaceId, memberId)) {
+        return res.status(409).json({ message: "A workspace needs at least one owner" });
+      }
+
+      const success = await storage.removeWorkspaceMember(workspaceId, memberId);
+      if (!success) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json({ success: true, message: "Member removed" });
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove workspace member" });
+    }
+  });
+}
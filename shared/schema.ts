@@ -1,4 +1,5 @@
-import { pgTable, text, serial, timestamp, integer, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, integer, bigint, boolean, varchar, jsonb, index, primaryKey } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -20,6 +21,9 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  // Per-user overrides of the default quotas; null uses the server default
+  storageQuota: bigint("storage_quota", { mode: "number" }),
+  itemQuota: integer("item_quota"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -27,6 +31,109 @@ export const users = pgTable("users", {
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+// Who each signed-in browser session belongs to and where it is, so users
+// can review and end their sessions. The session data itself stays in
+// sessions; a row here outlives its session until the user's list is read.
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  device: text("device").notNull(), // e.g. "Firefox on Windows", from the user agent
+  userAgent: text("user_agent"),
+  ipAddress: varchar("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+}, (table) => [index("IDX_user_sessions_user_id").on(table.userId)]);
+
+export type InsertUserSession = typeof userSessions.$inferInsert;
+export type UserSession = typeof userSessions.$inferSelect;
+
+// Email and password sign-in for the local auth provider. Kept out of users
+// so password hashes never travel with user records.
+export const localAccounts = pgTable("local_accounts", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  email: varchar("email").notNull().unique(), // Stored lowercased
+  passwordHash: text("password_hash").notNull(),
+  // Two-factor authentication, see server/twoFactor.ts. The secret is set
+  // once enrollment is confirmed; totpLastStep keeps a code from being reused.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastStep: bigint("totp_last_step", { mode: "number" }),
+  recoveryCodeHashes: jsonb("recovery_code_hashes").$type<string[]>(), // SHA-256, one per unused code
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const localSignUpSchema = z.object({
+  email: z.string().email("Invalid email"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  firstName: z.string().max(100).optional(),
+  lastName: z.string().max(100).optional(),
+});
+
+// A TOTP code, or one of the recovery codes handed out at enrollment
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(50),
+});
+
+export type LocalSignUp = z.infer<typeof localSignUpSchema>;
+export type InsertLocalAccount = typeof localAccounts.$inferInsert;
+export type LocalAccount = typeof localAccounts.$inferSelect;
+
+// Shared spaces for a team's items. Owners manage members, editors add and
+// change items, viewers only read.
+export const workspaceRoles = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  // Members can only reach the workspace once they have turned on two-factor authentication
+  requireTwoFactor: boolean("require_two_factor").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").$type<WorkspaceRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.workspaceId, table.userId] }),
+  index("IDX_workspace_members_user_id").on(table.userId),
+]);
+
+export const workspaceNameSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export const updateWorkspaceSchema = workspaceNameSchema.partial().extend({
+  requireTwoFactor: z.boolean().optional(),
+});
+
+export const addWorkspaceMemberSchema = z.object({
+  email: z.string().email("Invalid email"),
+  role: z.enum(workspaceRoles),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+
+// Uploaded files are scanned before they can be downloaded, see server/scanning.ts
+export const scanStatuses = ["pending", "clean", "quarantined", "failed"] as const;
+export type ScanStatus = typeof scanStatuses[number];
+
+// Text is extracted from uploaded documents for search once they have been
+// scanned, see server/extraction.ts. "unsupported" files are of a type, or a
+// size, text is not extracted from; quarantined files are "skipped".
+export const extractionStatuses = ["pending", "done", "unsupported", "skipped", "failed"] as const;
+export type ExtractionStatus = typeof extractionStatuses[number];
+
 export const items = pgTable("items", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull(),
@@ -37,13 +144,31 @@ export const items = pgTable("items", {
   fileName: text("file_name"),
   fileSize: integer("file_size"),
   mimeType: text("mime_type"),
+  objectKey: text("object_key"), // Blob store key for 'file' items, see blobs
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // Null for personal items
   tags: text("tags").array().$default(() => []),
-  metadata: text("metadata"), // JSON string for additional data
+  metadata: jsonb("metadata").$type<ItemMetadata>(), // Per-type data, see itemMetadataSchema
+  scanStatus: text("scan_status").$type<ScanStatus>(), // Files only; null for files stored before scanning
+  scanResult: text("scan_result"), // Why a file was quarantined
+  extractionStatus: text("extraction_status").$type<ExtractionStatus>(), // Files only
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("IDX_items_object_key").on(table.objectKey),
+  index("IDX_items_workspace_id").on(table.workspaceId),
+]);
+
+// items also has a search_vector column, the weighted full-text index, and
+// extracted_text, the text of uploaded documents that feeds it. A trigger
+// maintains search_vector (migrations/0016_item_search.sql, 0017) and both
+// are left out here so item rows are returned without them.
 
-export const insertItemSchema = createInsertSchema(items).omit({
+export const insertItemSchema = createInsertSchema(items, {
+  // Checked per item type with itemMetadataSchema
+  metadata: z.custom<ItemMetadata>().nullish(),
+  scanStatus: z.enum(scanStatuses).nullish(),
+  extractionStatus: z.enum(extractionStatuses).nullish(),
+}).omit({
   id: true,
   userId: true,
   createdAt: true,
@@ -53,6 +178,206 @@ export const insertItemSchema = createInsertSchema(items).omit({
 export type InsertItem = z.infer<typeof insertItemSchema>;
 export type Item = typeof items.$inferSelect;
 
+// Fields a client may change on an existing item. The blob key and size are
+// fixed at upload time, since blob access and quotas are derived from them,
+// items stay in the workspace they were created in, and only scanners and
+// text extraction set their statuses.
+export const updateItemSchema = insertItemSchema
+  .omit({ objectKey: true, fileSize: true, workspaceId: true, scanStatus: true, scanResult: true, extractionStatus: true })
+  .partial();
+
+export type UpdateItem = z.infer<typeof updateItemSchema>;
+
+// Stored file contents. Uploads are keyed by SHA-256 so identical files
+// share one blob; refCount counts the items pointing at it. Blobs uploaded
+// before deduplication have no hash and a single reference.
+export const blobs = pgTable("blobs", {
+  objectKey: text("object_key").primaryKey(),
+  hash: varchar("hash", { length: 64 }).unique(),
+  size: integer("size").notNull(),
+  refCount: integer("ref_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type InsertStoredBlob = typeof blobs.$inferInsert;
+export type StoredBlob = typeof blobs.$inferSelect;
+
+// Envelope encryption at rest, see server/fileEncryption.ts. Each user has a
+// key wrapped by the server's master key; each stored object's data key is
+// wrapped by the key of a user referencing it. Objects without a data key
+// were stored before encryption was enabled.
+export const userKeys = pgTable("user_keys", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  wrappedKey: text("wrapped_key").notNull(),
+  masterKeyId: varchar("master_key_id", { length: 16 }).notNull(), // Which master key wrapped it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_user_keys_user_id").on(table.userId)]);
+
+export type InsertUserKey = typeof userKeys.$inferInsert;
+export type UserKey = typeof userKeys.$inferSelect;
+
+export const dataKeys = pgTable("data_keys", {
+  // A blob key, or uploads/<id>/ for the chunks of a resumable upload
+  objectKey: text("object_key").notNull(),
+  userId: varchar("user_id").notNull(),
+  userKeyId: integer("user_key_id").notNull().references(() => userKeys.id),
+  wrappedKey: text("wrapped_key").notNull(),
+  iv: varchar("iv", { length: 24 }), // AES-CTR initial counter; chunks carry their own
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.objectKey, table.userId] }),
+  index("IDX_data_keys_user_key_id").on(table.userKeyId),
+]);
+
+export type InsertDataKey = typeof dataKeys.$inferInsert;
+export type DataKey = typeof dataKeys.$inferSelect;
+
+// Resumable upload sessions. Each PATCH stores one chunk blob; finalizing
+// joins the chunks into the item's blob and removes the session.
+export const uploads = pgTable("uploads", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type"),
+  size: integer("size").notNull(),
+  offset: integer("offset").notNull().default(0),
+  chunkSizes: integer("chunk_sizes").array().notNull().default(sql`'{}'`),
+  tags: text("tags").array().$default(() => []),
+  workspaceId: integer("workspace_id"), // Checked again when the upload is finalized
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [index("IDX_uploads_expires_at").on(table.expiresAt)]);
+
+export const createUploadSchema = z.object({
+  fileName: z.string().min(1, "File name is required"),
+  mimeType: z.string().optional(),
+  size: z.number().int().nonnegative(),
+  tags: z.array(z.string()).default([]),
+  workspaceId: z.number().int().positive().nullish(),
+});
+
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+export type InsertUpload = typeof uploads.$inferInsert;
+export type Upload = typeof uploads.$inferSelect;
+
+// Public links to a single item. The URL carries the id plus an HMAC of it,
+// so forged links are rejected before any lookup; everything else (expiry,
+// password, download limit) is checked against this row.
+export const shareLinks = pgTable("share_links", {
+  id: varchar("id").primaryKey(),
+  itemId: integer("item_id").notNull().references(() => items.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull(),
+  passwordHash: text("password_hash"),
+  expiresAt: timestamp("expires_at"),
+  maxDownloads: integer("max_downloads"),
+  downloadCount: integer("download_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_share_links_item_id").on(table.itemId)]);
+
+export const createShareLinkSchema = z.object({
+  expiresAt: z.coerce.date()
+    .refine((date) => date > new Date(), "Expiry must be in the future")
+    .optional(),
+  password: z.string().min(4, "Password must be at least 4 characters").max(200).optional(),
+  maxDownloads: z.number().int().positive().optional(),
+});
+
+export type CreateShareLink = z.infer<typeof createShareLinkSchema>;
+export type InsertShareLink = typeof shareLinks.$inferInsert;
+export type ShareLink = typeof shareLinks.$inferSelect;
+
+// Personal access tokens for scripts and CLIs, sent as "Authorization: Bearer".
+// Only a SHA-256 of the token is stored; the prefix lets owners tell them apart.
+export const apiTokenScopes = ["read", "write", "files"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  tokenPrefix: varchar("token_prefix").notNull(),
+  scopes: text("scopes").array().$type<ApiTokenScope[]>().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_api_tokens_user_id").on(table.userId)]);
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// Append-only record of what happened to items and accounts. Item id and
+// title are copied so events stay readable after the item is deleted.
+export const auditActions = [
+  "item.create",
+  "item.update",
+  "item.delete",
+  "item.download",
+  "share.create",
+  "share.revoke",
+  "share.download",
+  "token.create",
+  "token.revoke",
+  "session.revoke",
+  "auth.login",
+  "auth.login_failed",
+  "auth.2fa_enable",
+  "auth.2fa_disable",
+  "workspace.update",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  action: text("action").$type<AuditAction>().notNull(),
+  userId: varchar("user_id").notNull(), // Whose activity log the event is in
+  actorId: varchar("actor_id"), // Who did it; null for share link visitors
+  workspaceId: integer("workspace_id"),
+  itemId: integer("item_id"),
+  itemTitle: text("item_title"),
+  changedFields: text("changed_fields").array(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_events_user_id").on(table.userId, table.id),
+  index("IDX_audit_events_workspace_id").on(table.workspaceId, table.id),
+  index("IDX_audit_events_item_id").on(table.itemId),
+]);
+
+export const activityQuerySchema = z.object({
+  action: z.enum(auditActions).optional(),
+  itemId: z.coerce.number().int().positive().optional(),
+  workspace: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Events with a smaller id than this, for paging back in time
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// Fixed-window request counters, shared by every instance. The key names the
+// bucket and who is counted, e.g. "create:user:<id>" or "login:ip:<address>".
+export const rateLimits = pgTable("rate_limits", {
+  key: varchar("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(), // End of the current window
+}, (table) => [index("IDX_rate_limits_reset_at").on(table.resetAt)]);
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+
 // Contact specific schema
 export const contactSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -81,3 +406,89 @@ export const noteSchema = z.object({
 });
 
 export type NoteData = z.infer<typeof noteSchema>;
+
+// End-to-end encrypted notes. The browser derives an AES key from a passphrase
+// and encrypts {title, content} as one JSON payload; the server only sees the
+// base64 ciphertext in items.content and this descriptor in items.metadata.
+const base64 = z.string().regex(/^[A-Za-z0-9+/]+={0,2}$/, "Must be base64");
+
+export const noteEncryptionSchema = z.object({
+  version: z.literal(1),
+  algorithm: z.literal("AES-GCM-256"),
+  kdf: z.literal("PBKDF2-SHA256"),
+  iterations: z.number().int().min(100_000).max(10_000_000),
+  salt: base64.min(16).max(64),
+  iv: base64.length(16), // 12 bytes
+});
+
+export type NoteEncryption = z.infer<typeof noteEncryptionSchema>;
+
+export const encryptedNoteSchema = z.object({
+  ciphertext: base64,
+  encryption: noteEncryptionSchema,
+});
+
+// Stored in place of the real title, which is part of the ciphertext
+export const ENCRYPTED_NOTE_TITLE = "Encrypted note";
+
+// Per-type item metadata, stored in items.metadata. The contact and link
+// variants keep the parts of the creation payload that have no column.
+export const fileMetadataSchema = z.object({});
+export const noteMetadataSchema = z.object({
+  encryption: noteEncryptionSchema.optional(),
+});
+export const contactMetadataSchema = contactSchema.pick({
+  email: true,
+  phone: true,
+  company: true,
+  role: true,
+});
+export const linkMetadataSchema = linkSchema.pick({ url: true });
+
+// Nothing is stored for files yet
+export type FileMetadata = Record<string, never>;
+export type NoteMetadata = z.infer<typeof noteMetadataSchema>;
+export type ContactMetadata = z.infer<typeof contactMetadataSchema>;
+export type LinkMetadata = z.infer<typeof linkMetadataSchema>;
+export type ItemMetadata = FileMetadata | NoteMetadata | ContactMetadata | LinkMetadata;
+
+export const itemMetadataSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("file"), metadata: fileMetadataSchema.nullable() }),
+  z.object({ type: z.literal("note"), metadata: noteMetadataSchema.nullable() }),
+  z.object({ type: z.literal("contact"), metadata: contactMetadataSchema.nullable() }),
+  z.object({ type: z.literal("link"), metadata: linkMetadataSchema.nullable() }),
+]);
+
+// The descriptor of an encrypted note, undefined for everything else
+export function noteEncryption(item: Pick<Item, "type" | "metadata">): NoteEncryption | undefined {
+  if (item.type !== "note" || !item.metadata || !("encryption" in item.metadata)) return undefined;
+  return item.metadata.encryption;
+}
+
+// Storage usage, as reported by GET /api/usage
+export type MimeCategory = "image" | "video" | "audio" | "document" | "text" | "archive" | "other";
+
+export function mimeCategory(mimeType: string | null | undefined): MimeCategory {
+  if (!mimeType) return "other";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("text/")) return "text";
+  if (/pdf|msword|officedocument|opendocument|ms-excel|ms-powerpoint|rtf/.test(mimeType)) return "document";
+  if (/zip|tar|rar|7z|compressed/.test(mimeType)) return "archive";
+  return "other";
+}
+
+export interface UsageBucket {
+  count: number;
+  bytes: number;
+}
+
+export interface UsageReport {
+  bytes: number;
+  items: number;
+  // null means unlimited
+  limits: { bytes: number | null; items: number | null };
+  byType: Record<string, UsageBucket>;
+  byCategory: Partial<Record<MimeCategory, UsageBucket>>;
+}